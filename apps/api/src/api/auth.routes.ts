@@ -2,6 +2,7 @@ import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import prisma from '../utils/prisma.js';
 import { generateToken } from '../auth/jwt.js';
+import { authMiddleware, AuthenticatedRequest } from '../auth/index.js';
 import logger from '../utils/logger.js';
 
 const router = Router();
@@ -13,6 +14,13 @@ const devLoginSchema = z.object({
   email: z.string().email().optional(),
 });
 
+/**
+ * Register Wallet Schema
+ */
+const registerWalletSchema = z.object({
+  walletAddress: z.string().regex(/^[1-9A-HJ-NP-Za-km-z]{32,44}$/, 'Invalid Solana wallet address'),
+});
+
 /**
  * POST /api/auth/dev-login
  * 
@@ -57,6 +65,7 @@ router.post('/dev-login', async (req: Request, res: Response) => {
         user: {
           id: user.id,
           email: user.email,
+          walletAddress: user.walletAddress,
           createdAt: user.createdAt,
         },
       }
@@ -126,6 +135,7 @@ router.get('/me', async (req: Request, res: Response) => {
         user: {
           id: user.id,
           email: user.email,
+          walletAddress: user.walletAddress,
           createdAt: user.createdAt,
           agents: user.agents,
           tasksCreatedCount: user._count.tasksCreated,
@@ -138,4 +148,44 @@ router.get('/me', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/auth/me/wallet
+ *
+ * Register the wallet refunds on your Tasks are sent to.
+ */
+router.put('/me/wallet', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { walletAddress } = registerWalletSchema.parse(req.body);
+
+    const user = await prisma.user.update({
+      where: { id: req.user!.userId },
+      data: { walletAddress },
+    });
+
+    logger.info('Refund wallet registered', { userId: user.id });
+
+    res.json({
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          walletAddress: user.walletAddress,
+          createdAt: user.createdAt,
+        },
+      }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else {
+      logger.error('Register wallet error', error as Error);
+      res.status(500).json({
+        error: { code: 'INTERNAL_ERROR', message: 'Internal server error' },
+      });
+    }
+  }
+});
+
 export default router;
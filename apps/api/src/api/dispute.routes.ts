@@ -0,0 +1,185 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest, isPlatformAdmin } from '../auth/index.js';
+import { disputeService } from '../services/index.js';
+import { RunicError, ForbiddenError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * Submit Evidence Schema
+ */
+const submitEvidenceSchema = z.object({
+  content: z.string().min(1).max(10000),
+  attachmentUrl: z.string().url().max(2000).optional(),
+});
+
+/**
+ * Verdict Schema
+ */
+const verdictSchema = z.object({
+  verdict: z.enum(['FULL_PAY', 'PARTIAL_PAY', 'REFUND']),
+  agentShareBps: z.number().int().min(1).max(9999).optional(), // PARTIAL_PAY only
+  rationale: z.string().min(1).max(5000),
+});
+
+/**
+ * Register Arbiter Schema
+ */
+const registerArbiterSchema = z.object({
+  userId: z.string().min(1).optional(), // defaults to the admin making the call
+  stakeLamports: z.string().regex(/^\d+$/, 'Must be a whole number of lamports').transform(val => BigInt(val)),
+});
+
+/**
+ * GET /api/disputes
+ *
+ * List disputes you are involved in (creator, Agent owner or arbiter).
+ */
+router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const status = req.query.status === 'OPEN' || req.query.status === 'RESOLVED'
+      ? req.query.status
+      : undefined;
+
+    const disputes = await disputeService.listDisputes(req.user!.userId, status);
+
+    res.json({ data: { disputes } });
+  } catch (error) {
+    logger.error('List disputes error', error as Error);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  }
+});
+
+/**
+ * POST /api/disputes/arbiters
+ *
+ * Add a user to the arbiter pool with the stake they put up, or change it
+ * (platform admins only, stakes are held outside the platform).
+ */
+router.post('/arbiters', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can register arbiters');
+    }
+
+    const data = registerArbiterSchema.parse(req.body);
+    const arbiter = await disputeService.registerArbiter(data.userId ?? req.user!.userId, data.stakeLamports);
+
+    res.status(201).json({ data: { arbiter } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Register arbiter error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * DELETE /api/disputes/arbiters/me
+ *
+ * Leave the arbiter pool.
+ */
+router.delete('/arbiters/me', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const arbiter = await disputeService.deactivateArbiter(req.user!.userId);
+
+    res.json({ data: { arbiter } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Deactivate arbiter error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/disputes/:id
+ *
+ * Get a dispute with its evidence (parties, arbiter and admins).
+ */
+router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const dispute = await disputeService.getDispute(req.params.id, req.user!.userId);
+
+    res.json({ data: { dispute } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Get dispute error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/disputes/:id/evidence
+ *
+ * Submit evidence (Task creator or Agent owner).
+ */
+router.post('/:id/evidence', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = submitEvidenceSchema.parse(req.body);
+    const evidence = await disputeService.submitEvidence(req.params.id, req.user!.userId, data);
+
+    res.status(201).json({ data: { evidence } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Submit evidence error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/disputes/:id/verdict
+ *
+ * Rule on a dispute (assigned arbiter, dispute admin or platform admin).
+ */
+router.post('/:id/verdict', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = verdictSchema.parse(req.body);
+    const dispute = await disputeService.resolveDispute(req.params.id, req.user!.userId, data);
+
+    res.json({ data: { dispute, message: `Verdict applied: ${data.verdict}` } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Dispute verdict error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+export default router;
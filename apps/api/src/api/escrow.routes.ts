@@ -0,0 +1,108 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest } from '../auth/index.js';
+import { escrowService } from '../services/index.js';
+import { RunicError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * Create Deposit Schema
+ */
+const createDepositSchema = z.object({
+  tokenSymbol: z.string().min(1).max(20),
+  amountLamports: z.string().transform(val => BigInt(val)),
+});
+
+/**
+ * GET /api/escrow/balances
+ *
+ * Your prepaid balances, one per token.
+ */
+router.get('/balances', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const balances = await escrowService.getBalances(req.user!.userId);
+
+    res.json({ data: { balances } });
+  } catch (error) {
+    logger.error('Get balances error', error as Error);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  }
+});
+
+/**
+ * GET /api/escrow/deposits
+ *
+ * Your deposits, newest first.
+ */
+router.get('/deposits', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deposits = await escrowService.listDeposits(req.user!.userId);
+
+    res.json({ data: { deposits } });
+  } catch (error) {
+    logger.error('List deposits error', error as Error);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  }
+});
+
+/**
+ * POST /api/escrow/deposits
+ *
+ * Top up your balance: returns where to send the funds and the reference
+ * key the transfer must include.
+ */
+router.post('/deposits', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = createDepositSchema.parse(req.body);
+    const deposit = await escrowService.createDeposit(req.user!.userId, data.tokenSymbol, data.amountLamports);
+
+    res.status(201).json({ data: { deposit } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Create deposit error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/escrow/deposits/:id/confirm
+ *
+ * Look for the deposit on-chain now instead of waiting for the scheduler.
+ * Credits what arrived and funds the Task waiting for it.
+ */
+router.post('/deposits/:id/confirm', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const deposit = await escrowService.confirmDeposit(req.params.id, req.user!.userId);
+
+    res.json({
+      data: {
+        deposit,
+        message: deposit.status === 'CREDITED'
+          ? 'Deposit credited'
+          : `Received ${deposit.receivedLamports} of ${deposit.amountLamports} so far`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Confirm deposit error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+export default router;
@@ -4,6 +4,10 @@ import agentRoutes from './agent.routes.js';
 import taskRoutes from './task.routes.js';
 import paymentRoutes from './payment.routes.js';
 import solanaRoutes from './solana.routes.js';
+import scoringRoutes from './scoring.routes.js';
+import disputeRoutes from './dispute.routes.js';
+import escrowRoutes from './escrow.routes.js';
+import ledgerRoutes from './ledger.routes.js';
 
 const router = Router();
 
@@ -54,5 +58,9 @@ router.use('/agents', agentRoutes);
 router.use('/tasks', taskRoutes);
 router.use('/payments', paymentRoutes);
 router.use('/solana', solanaRoutes);
+router.use('/scoring', scoringRoutes);
+router.use('/disputes', disputeRoutes);
+router.use('/escrow', escrowRoutes);
+router.use('/ledger', ledgerRoutes);
 
 export default router;
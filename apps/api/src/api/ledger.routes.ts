@@ -0,0 +1,158 @@
+import { Router, Response } from 'express';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest, isPlatformAdmin } from '../auth/index.js';
+import { ledgerService } from '../services/index.js';
+import { RunicError, ForbiddenError } from '../utils/errors.js';
+import logger from '../utils/logger.js';
+
+const router = Router();
+
+/**
+ * List Accounts Query Schema
+ */
+const listAccountsSchema = z.object({
+  type: z.enum(['TREASURY', 'CREATOR_BALANCE', 'ESCROW', 'AGENT_PAYABLE', 'PROTOCOL_FEES']).optional(),
+  ownerId: z.string().optional(),
+  tokenSymbol: z.string().optional(),
+});
+
+/**
+ * List Entries Query Schema
+ */
+const listEntriesSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).optional(),
+});
+
+/**
+ * List Transactions Query Schema
+ */
+const listTransactionsSchema = z.object({
+  taskId: z.string().optional(),
+  paymentId: z.string().optional(),
+}).refine(
+  data => data.taskId || data.paymentId,
+  { message: 'taskId or paymentId is required' }
+);
+
+/**
+ * GET /api/ledger/accounts
+ *
+ * Account balances, filtered by type, owner or token (platform admins only).
+ */
+router.get('/accounts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can read the ledger');
+    }
+
+    const filters = listAccountsSchema.parse(req.query);
+    const accounts = await ledgerService.listAccounts(filters);
+
+    res.json({ data: { accounts } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List ledger accounts error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/ledger/accounts/:id/entries
+ *
+ * An account's entries, newest first.
+ */
+router.get('/accounts/:id/entries', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can read the ledger');
+    }
+
+    const { limit } = listEntriesSchema.parse(req.query);
+    const account = await ledgerService.getAccountById(req.params.id);
+    const entries = await ledgerService.listEntries(account.id, limit);
+
+    res.json({ data: { account, entries } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List ledger entries error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/ledger/transactions
+ *
+ * The journal of a Task or a payment, oldest first.
+ */
+router.get('/transactions', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can read the ledger');
+    }
+
+    const filters = listTransactionsSchema.parse(req.query);
+    const transactions = await ledgerService.listTransactions(filters);
+
+    res.json({ data: { transactions } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List ledger transactions error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/ledger/integrity
+ *
+ * Check that every transaction balances and every account matches its
+ * entries, and reconcile what Agents are owed against what was paid out.
+ */
+router.get('/integrity', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can read the ledger');
+    }
+
+    const report = await ledgerService.checkIntegrity();
+
+    res.json({ data: { report } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Ledger integrity check error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+export default router;
@@ -1,12 +1,21 @@
 import { Router, Response } from 'express';
-import { authMiddleware, AuthenticatedRequest } from '../auth/index.js';
-import { paymentService } from '../services/index.js';
-import { RunicError } from '../utils/errors.js';
+import { z } from 'zod';
+import { authMiddleware, AuthenticatedRequest, isPlatformAdmin } from '../auth/index.js';
+import { paymentService, payoutService, agentService } from '../services/index.js';
+import { RunicError, ForbiddenError } from '../utils/errors.js';
 import logger from '../utils/logger.js';
 import { emitEvent } from '../websocket/events.js';
 
 const router = Router();
 
+/**
+ * Refund Payment Schema
+ */
+const refundPaymentSchema = z.object({
+  reason: z.string().min(1).max(2000),
+  amountLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined), // default: what is left
+});
+
 /**
  * GET /api/payments
  * 
@@ -30,6 +39,90 @@ router.get('/', authMiddleware, async (req: AuthenticatedRequest, res: Response)
   }
 });
 
+/**
+ * GET /api/payments/payouts
+ *
+ * Recent payout batches (platform admins only).
+ */
+router.get('/payouts', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can list payout batches');
+    }
+
+    const batches = await payoutService.listBatches();
+
+    res.json({ data: { batches } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List payout batches error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/payments/payouts/run
+ *
+ * Submit every pending payment now, without waiting for the cadence or
+ * threshold (platform admins only).
+ */
+router.post('/payouts/run', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can run payouts');
+    }
+
+    const batches = await payoutService.runPayouts({ force: true });
+
+    res.json({
+      data: {
+        batches,
+        message: `${batches.length} payout batch(es) submitted`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Run payouts error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/payments/payouts/:batchId
+ *
+ * A payout batch, its payments and its settlement attempts (platform admins only).
+ */
+router.get('/payouts/:batchId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can view payout batches');
+    }
+
+    const batch = await payoutService.getBatchById(req.params.batchId);
+
+    res.json({ data: { batch } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Get payout batch error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
 /**
  * GET /api/payments/:id
  * 
@@ -54,7 +147,8 @@ router.get('/:id', authMiddleware, async (req: AuthenticatedRequest, res: Respon
 /**
  * POST /api/payments/:id/settle
  * 
- * Settle a pending payment (simulated for now).
+ * Settle a pending payment now. The payout transaction is submitted; the
+ * payment is COMPLETED once it is finalized (see GET /api/payments/:id).
  */
 router.post('/:id/settle', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -64,13 +158,13 @@ router.post('/:id/settle', authMiddleware, async (req: AuthenticatedRequest, res
       payment,
       taskId: payment.taskId,
       agentId: payment.agentId,
-      status: 'COMPLETED',
+      status: payment.status,
     });
 
     res.json({ 
       data: {
         payment, 
-        message: 'Payment settled successfully',
+        message: 'Payment submitted for settlement',
       }
     });
   } catch (error) {
@@ -85,20 +179,69 @@ router.post('/:id/settle', authMiddleware, async (req: AuthenticatedRequest, res
   }
 });
 
+/**
+ * POST /api/payments/:id/retry
+ * 
+ * Settle a FAILED payment again (Agent owner or platform admins).
+ * Refused while any of its earlier transactions could still land.
+ */
+router.post('/:id/retry', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const existing = await paymentService.getPaymentById(req.params.id);
+    const agent = await agentService.getAgentById(existing.agentId);
+
+    if (agent.ownerUserId !== req.user!.userId && !isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only the Agent owner or platform admins can retry payments');
+    }
+
+    const payment = await paymentService.retryPayment(req.params.id);
+
+    emitEvent('payments:updated', {
+      payment,
+      taskId: payment.taskId,
+      agentId: payment.agentId,
+      status: payment.status,
+    });
+
+    res.json({
+      data: {
+        payment,
+        message: 'Payment submitted for settlement',
+      }
+    });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Retry payment error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
 /**
  * POST /api/payments/:id/refund
  * 
- * Refund a completed payment.
+ * Refund a pending payment, or all or part of a completed one (platform admins only).
+ * Completed payments are sent back to the creator's registered wallet.
+ * Disputed results are refunded by the dispute verdict instead.
  */
 router.post('/:id/refund', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const payment = await paymentService.refundPayment(req.params.id);
+    if (!isPlatformAdmin(req.user!.userId)) {
+      throw new ForbiddenError('Only platform admins can refund payments');
+    }
+
+    const data = refundPaymentSchema.parse(req.body);
+    const payment = await paymentService.refundPayment(req.params.id, data.reason, data.amountLamports);
 
     emitEvent('payments:updated', {
       payment,
       taskId: payment.taskId,
       agentId: payment.agentId,
-      status: 'REFUNDED',
+      status: payment.status,
     });
 
     res.json({ 
@@ -108,7 +251,11 @@ router.post('/:id/refund', authMiddleware, async (req: AuthenticatedRequest, res
       }
     });
   } catch (error) {
-    if (error instanceof RunicError) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
       res.status(error.statusCode).json({
         error: { code: error.code, message: error.message },
       });
@@ -133,6 +280,7 @@ router.get('/agent/:agentId/stats', authMiddleware, async (req: AuthenticatedReq
         stats: {
           ...stats,
           totalEarned: stats.totalEarned.toString(),
+          pendingEarned: stats.pendingEarned.toString(),
         },
       }
     });
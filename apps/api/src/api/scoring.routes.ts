@@ -0,0 +1,27 @@
+import { Router, Request, Response } from 'express';
+import { config } from '../config/index.js';
+import { listScoringPolicies } from '../scoring/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/scoring/policies
+ * 
+ * List available offer scoring policies and their default weights.
+ */
+router.get('/policies', (req: Request, res: Response) => {
+  const policies = listScoringPolicies().map(policy => ({
+    name: policy.name,
+    description: policy.description,
+    defaultWeights: policy.defaultWeights,
+  }));
+
+  res.json({
+    data: {
+      defaultPolicy: config.scoring.defaultPolicy,
+      policies,
+    },
+  });
+});
+
+export default router;
@@ -1,12 +1,20 @@
 import { Router, Response } from 'express';
 import { z } from 'zod';
-import { authMiddleware, AuthenticatedRequest } from '../auth/index.js';
+import { Deposit, Task } from '@prisma/client';
+import { authMiddleware, optionalAuthMiddleware, AuthenticatedRequest } from '../auth/index.js';
 import { 
   taskService, 
   offerService, 
   auctionEngine,
   executionService,
   agentService,
+  shardService,
+  workflowService,
+  subcontractService,
+  reviewService,
+  disputeService,
+  milestoneService,
+  escrowService,
 } from '../services/index.js';
 import { RunicError } from '../utils/errors.js';
 import logger from '../utils/logger.js';
@@ -24,6 +32,70 @@ const createTaskSchema = z.object({
   budgetLamports: z.string().transform(val => BigInt(val)),
   deadline: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   requiredCapabilities: z.array(z.string()).default([]),
+  auctionMode: z.enum(['STANDARD', 'SEALED_SECOND_PRICE', 'REVERSE_ENGLISH']).default('STANDARD'),
+  minScoreStep: z.number().positive().optional(),
+  snipeWindowSeconds: z.number().int().positive().optional(),
+  extensionSeconds: z.number().int().positive().optional(),
+  auctionWindowSeconds: z.number().int().positive().max(7 * 24 * 3600).optional(),
+  auctionStartsAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  minOffers: z.number().int().positive().max(100).optional(),
+  reservePriceLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined),
+  scoringPolicy: z.string().optional(),
+  scoringWeights: z.record(z.number()).optional(),
+  minReputation: z.number().min(0).max(5).optional(),
+  minTasksCompleted: z.number().int().nonnegative().optional(),
+  maxFailureRatio: z.number().min(0).max(1).optional(),
+  allowedAgentIds: z.array(z.string()).max(100).optional(),
+  allowedOwnerIds: z.array(z.string()).max(100).optional(),
+  deniedAgentIds: z.array(z.string()).max(100).optional(),
+  deniedOwnerIds: z.array(z.string()).max(100).optional(),
+  maxReauctions: z.number().int().nonnegative().max(20).optional(),
+  backoffSeconds: z.number().int().nonnegative().max(24 * 3600).optional(),
+  budgetStepLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined),
+  maxBudgetLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined),
+  buyNowPriceLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined),
+  buyNowMaxEtaSeconds: z.number().int().positive().optional(),
+  buyNowMinReputation: z.number().min(0).max(5).optional(),
+  startTimeoutSeconds: z.number().int().positive().max(7 * 24 * 3600).optional(),
+  winnerCount: z.number().int().positive().max(20).optional(),
+  consensusThreshold: z.number().int().positive().optional(),
+  consensusComparator: z.string().optional(),
+  consensusTolerance: z.number().nonnegative().optional(),
+  dependsOn: z.array(z.string()).max(50).optional(),
+  onDependencyFailure: z.enum(['CANCEL', 'WAIT', 'PROCEED']).optional(),
+  reviewWindowSeconds: z.number().int().nonnegative().max(30 * 24 * 3600).optional(),
+  maxRevisions: z.number().int().nonnegative().max(10).optional(),
+  maxRetries: z.number().int().nonnegative().max(10).optional(),
+  milestones: z.array(z.object({
+    title: z.string().min(1).max(200),
+    deliverable: z.string().min(1).max(2000),
+    shareBps: z.number().int().positive().max(10000),
+  })).max(20).optional(),
+});
+
+/**
+ * Create Sharded Task Schema
+ * Shards share the Task settings; the parent budget is derived from the shard budgets.
+ */
+const createShardedTaskSchema = createTaskSchema.omit({
+  budgetLamports: true,
+  dependsOn: true,
+  onDependencyFailure: true,
+  milestones: true,
+}).extend({
+  shardInputs: z.array(z.string().min(1).max(10000)).min(2).max(1000),
+  shardBudgetLamports: z.string().transform(val => BigInt(val)),
+  reduce: z.object({
+    budgetLamports: z.string().transform(val => BigInt(val)),
+    requiredCapabilities: z.array(z.string()).optional(),
+  }).optional(),
+});
+
+/**
+ * Create Subtask Schema
+ */
+const createSubtaskSchema = createTaskSchema.extend({
+  agentId: z.string(), // the Agent running the parent Task, which funds the subtask
 });
 
 /**
@@ -33,12 +105,32 @@ const createOfferSchema = z.object({
   agentId: z.string(),
   priceLamports: z.string().transform(val => BigInt(val)),
   etaSeconds: z.number().int().positive(),
+  validUntil: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+});
+
+/**
+ * Amend Offer Schema
+ */
+const amendOfferSchema = z.object({
+  agentId: z.string(),
+  priceLamports: z.string().optional().transform(val => val ? BigInt(val) : undefined),
+  etaSeconds: z.number().int().positive().optional(),
+  validUntil: z.string().datetime().nullable().optional()
+    .transform(val => val == null ? val : new Date(val)),
+});
+
+/**
+ * Start Execution Schema
+ */
+const startExecutionSchema = z.object({
+  agentId: z.string().optional(), // which winner is starting (consensus Tasks)
 });
 
 /**
  * Complete Execution Schema
  */
 const completeExecutionSchema = z.object({
+  agentId: z.string().optional(), // which winner is reporting (consensus Tasks)
   success: z.boolean(),
   signedResultPayload: z.string().optional(),
   resultSummary: z.string().optional(),
@@ -46,31 +138,160 @@ const completeExecutionSchema = z.object({
   errorMessage: z.string().optional(),
 });
 
+/**
+ * Review Schemas
+ */
+const requestRevisionSchema = z.object({
+  feedback: z.string().min(1).max(2000),
+});
+
+const openDisputeSchema = z.object({
+  reason: z.string().min(1).max(2000),
+});
+
+/**
+ * Milestone Schemas
+ */
+const submitMilestoneSchema = z.object({
+  signedResultPayload: z.string().min(1),
+  resultSummary: z.string().optional(),
+});
+
+const rejectMilestoneSchema = z.object({
+  feedback: z.string().min(1).max(2000),
+});
+
+/**
+ * Start the auction of a freshly created Task (or wait for its prerequisites)
+ */
+async function launchTask(task: Task) {
+  if (task.status === 'BLOCKED') {
+    // Prerequisites may be done already; unblocking starts the auction
+    const status = await workflowService.evaluate(task.id);
+
+    if (status === 'BLOCKED') {
+      emitEvent('tasks:updated', { task, status });
+    }
+
+    return {
+      task: { ...task, status },
+      auctionStartsAt: null,
+      auctionEndsAt: null,
+      message: status === 'BLOCKED'
+        ? 'Task created successfully. Auction starts when its prerequisites complete.'
+        : status === 'CANCELLED'
+          ? 'Task created but cancelled: a prerequisite has failed.'
+          : 'Task created successfully. Auction is starting.',
+    };
+  }
+
+  // Start the auction (or schedule it for auctionStartsAt)
+  const auction = await auctionEngine.startAuction(task);
+  const scheduled = auction?.status === 'SCHEDULED';
+
+  // Emit WebSocket event
+  emitEvent('tasks:created', {
+    task,
+    auctionStartsAt: auction?.startedAt ?? null,
+    auctionEndsAt: auction?.endsAt ?? null,
+  });
+
+  return {
+    task,
+    auctionStartsAt: auction?.startedAt ?? null,
+    auctionEndsAt: auction?.endsAt ?? null,
+    message: scheduled
+      ? 'Task created successfully. Auction is scheduled.'
+      : 'Task created successfully. Auction has started.',
+  };
+}
+
+/**
+ * Response for a Task waiting for its escrow deposit
+ */
+function awaitingDeposit(task: Task, deposit: Deposit) {
+  return {
+    task,
+    deposit,
+    auctionStartsAt: null,
+    auctionEndsAt: null,
+    message: `Task created. Deposit ${deposit.amountLamports} ${deposit.tokenSymbol} to ` +
+      `${deposit.depositAddress} (reference ${deposit.reference}) to fund it; ` +
+      'the auction starts once the deposit is confirmed.',
+  };
+}
+
 /**
  * POST /api/tasks
  * 
- * Create a new Task and start auction.
+ * Create a new Task and start auction (once its prerequisites complete).
+ * The budget is locked from the creator's balance; when the balance falls
+ * short, the response carries the deposit that funds the Task instead.
  */
 router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const data = createTaskSchema.parse(req.body);
     
-    // Create the Task
-    const task = await taskService.createTask(req.user!.userId, data);
+    // Create the Task, then fund it from the creator's balance or ask for a deposit
+    const created = await taskService.createTask(req.user!.userId, data);
+    const { task, deposit } = await escrowService.fundTask(created);
 
-    // Start the auction
-    await auctionEngine.startAuction(task);
+    if (deposit) {
+      res.status(201).json({ data: awaitingDeposit(task, deposit) });
+      return;
+    }
 
-    // Emit WebSocket event
-    emitEvent('tasks:created', {
-      task,
-      auctionEndsAt: new Date(Date.now() + 15000), // 15s window
-    });
+    res.status(201).json({ data: await launchTask(task) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Create task error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/tasks/sharded
+ * 
+ * Create a map-reduce Task: one parent and a separately auctioned shard per input.
+ * Funded like a single Task, for every shard and the reduce step.
+ */
+router.post('/sharded', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = createShardedTaskSchema.parse(req.body);
+
+    const created = await shardService.createShardedTask(req.user!.userId, data);
+    const { task: parent, deposit } = await escrowService.fundTask(created.parent);
+
+    if (deposit) {
+      res.status(201).json({ data: { ...awaitingDeposit(parent, deposit), shards: created.shards } });
+      return;
+    }
+
+    const shards = await shardService.listShards(parent.id);
+    for (const shard of shards) {
+      const auction = await auctionEngine.startAuction(shard);
+
+      emitEvent('tasks:created', {
+        task: shard,
+        auctionStartsAt: auction?.startedAt ?? null,
+        auctionEndsAt: auction?.endsAt ?? null,
+      });
+    }
 
-    res.status(201).json({ 
+    res.status(201).json({
       data: {
-        task,
-        message: 'Task created successfully. Auction has started.',
+        task: parent,
+        shards,
+        message: `Sharded Task created successfully. ${shards.length} shard auctions started.`,
       }
     });
   } catch (error) {
@@ -83,7 +304,7 @@ router.post('/', authMiddleware, async (req: AuthenticatedRequest, res: Response
         error: { code: error.code, message: error.message },
       });
     } else {
-      logger.error('Create task error', error as Error);
+      logger.error('Create sharded task error', error as Error);
       res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
     }
   }
@@ -115,23 +336,32 @@ router.get('/', async (req: AuthenticatedRequest, res: Response) => {
  * 
  * Get a Task by ID with full details.
  */
-router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
     const task = await taskService.getTaskById(req.params.id);
     
     // Get auction time remaining if active
     const auctionTimeRemaining = auctionEngine.getTimeRemaining(task.id);
     
-    // Get offer summary
-    const offers = await offerService.listOffersForTask(task.id);
-    const bestOffer = await offerService.getBestOfferForTask(task.id);
+    // Get offer summary (sealed-bid auctions hide competing offers until close)
+    const sealed = offerService.isSealed(task);
+    const offers = await offerService.listVisibleOffersForTask(task, req.user?.userId);
+    const offerCount = sealed ? await offerService.countOffersForTask(task.id) : offers.length;
+    const bestOffer = sealed ? null : await offerService.getBestOfferForTask(task.id);
+
+    // Map-reduce parents report their shards' aggregate progress
+    const shardProgress = task.kind === 'SHARD_PARENT'
+      ? await shardService.getProgress(task.id)
+      : null;
     
     res.json({ 
       data: {
-        task,
+        task: sealed ? { ...task, offers } : task,
         auctionTimeRemaining,
+        shardProgress,
         offersSummary: {
-          count: offers.length,
+          count: offerCount,
+          sealed,
           bestOffer: bestOffer ? {
             id: bestOffer.id,
             agentId: bestOffer.agentId,
@@ -154,22 +384,171 @@ router.get('/:id', async (req: AuthenticatedRequest, res: Response) => {
   }
 });
 
+/**
+ * GET /api/tasks/:id/shards
+ * 
+ * List the shards of a map-reduce Task with aggregate progress.
+ */
+router.get('/:id/shards', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const progress = await shardService.getProgress(req.params.id);
+    const shards = await shardService.listShards(req.params.id);
+
+    res.json({ data: { shards, progress } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List shards error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/tasks/:id/subtasks
+ * 
+ * Post a subtask funded by the Agent running this Task (Agent owner only).
+ */
+router.post('/:id/subtasks', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { agentId, ...data } = createSubtaskSchema.parse(req.body);
+
+    const subtask = await subcontractService.createSubtask(
+      req.user!.userId,
+      req.params.id,
+      agentId,
+      data
+    );
+
+    res.status(201).json({ data: await launchTask(subtask) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Create subtask error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/tasks/:id/subtasks
+ * 
+ * List the subtasks posted under a Task.
+ */
+router.get('/:id/subtasks', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const subtasks = await subcontractService.listSubtasks(req.params.id);
+
+    res.json({ data: { subtasks } });
+  } catch (error) {
+    logger.error('List subtasks error', error as Error);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  }
+});
+
+/**
+ * GET /api/tasks/:id/workflow
+ * 
+ * Get the dependency graph a Task belongs to, with every Task's status.
+ */
+router.get('/:id/workflow', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const workflow = await workflowService.getWorkflow(req.params.id);
+
+    res.json({ data: { workflow } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Get workflow error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/tasks/:id/dispute
+ *
+ * Get the dispute of a Task (parties, arbiter and admins).
+ */
+router.get('/:id/dispute', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const dispute = await disputeService.getDisputeForTask(req.params.id, req.user!.userId);
+
+    res.json({ data: { dispute } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Get task dispute error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/tasks/:id/escrow
+ *
+ * Get a Task's escrow and deposits (creator only).
+ */
+router.get('/:id/escrow', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { escrow, deposits } = await escrowService.getTaskEscrow(req.params.id, req.user!.userId);
+
+    res.json({ data: { escrow, deposits } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Get task escrow error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
 /**
  * POST /api/tasks/:id/cancel
  * 
  * Cancel a Task (creator only).
+ * RUNNING milestone Tasks can be cancelled too: submitted milestones are paid.
  */
 router.post('/:id/cancel', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const task = await taskService.cancelTask(req.params.id, req.user!.userId);
+    const existing = await taskService.getTaskById(req.params.id);
+
+    // RUNNING milestone Tasks settle what was delivered so far
+    const task = existing.status === 'RUNNING' && existing.milestoneCount > 0
+      ? await milestoneService.cancelPartway(existing.id, req.user!.userId)
+      : await taskService.cancelTask(req.params.id, req.user!.userId);
     
-    // Cancel auction if active
-    if (auctionEngine.isAuctionActive(task.id)) {
+    // Cancel auction if active or scheduled
+    if (auctionEngine.isAuctionActive(task.id) || auctionEngine.isAuctionScheduled(task.id)) {
       await auctionEngine.cancelAuction(task.id);
     }
 
     emitEvent('tasks:updated', { task, status: 'CANCELLED' });
 
+    // A cancelled shard fails its map-reduce parent; dependents follow their policy
+    await shardService.handleShardFinished(task.id);
+    await escrowService.settleTask(task.id);
+    await workflowService.handleTaskFinished(task.id);
+
     res.json({ data: { task, message: 'Task cancelled successfully' } });
   } catch (error) {
     if (error instanceof RunicError) {
@@ -207,14 +586,12 @@ router.post('/:id/offers', authMiddleware, async (req: AuthenticatedRequest, res
       {
         priceLamports: data.priceLamports,
         etaSeconds: data.etaSeconds,
+        validUntil: data.validUntil,
       }
     );
 
-    // Notify auction engine
-    auctionEngine.handleNewOffer(offer);
-
-    // Emit WebSocket event
-    emitEvent('offers:created', { offer, taskId: req.params.id });
+    // Notify auction engine (emits 'offers:created' with the current deadline)
+    await auctionEngine.handleNewOffer(offer);
 
     res.status(201).json({ data: { offer } });
   } catch (error) {
@@ -233,18 +610,120 @@ router.post('/:id/offers', authMiddleware, async (req: AuthenticatedRequest, res
   }
 });
 
+/**
+ * PATCH /api/tasks/:id/offers/:offerId
+ * 
+ * Amend a pending offer's price, ETA or expiry in place (keeps a revision history).
+ */
+router.patch('/:id/offers/:offerId', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = amendOfferSchema.parse(req.body);
+
+    // Verify agent ownership
+    const agent = await agentService.getAgentById(data.agentId);
+    if (agent.ownerUserId !== req.user!.userId) {
+      res.status(403).json({
+        error: { code: 'FORBIDDEN', message: 'You do not own this Agent' },
+      });
+      return;
+    }
+
+    const existing = await offerService.getOfferById(req.params.offerId);
+    if (existing.taskId !== req.params.id) {
+      res.status(404).json({
+        error: { code: 'NOT_FOUND', message: 'Offer not found for this Task' },
+      });
+      return;
+    }
+
+    const offer = await offerService.amendOffer(req.params.offerId, data.agentId, {
+      priceLamports: data.priceLamports,
+      etaSeconds: data.etaSeconds,
+      validUntil: data.validUntil,
+    });
+
+    // Notify auction engine (emits 'offers:updated' with the current deadline)
+    await auctionEngine.handleNewOffer(offer, true);
+
+    res.json({ data: { offer } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Amend offer error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/tasks/:id/offers/:offerId/revisions
+ * 
+ * List an offer's replaced terms, oldest first.
+ * While a sealed-bid auction is open, only the offer's owner can see them.
+ */
+router.get('/:id/offers/:offerId/revisions', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const task = await taskService.getTaskById(req.params.id);
+    const offer = await offerService.getOfferById(req.params.offerId);
+
+    if (offer.taskId !== task.id) {
+      res.status(404).json({
+        error: { code: 'NOT_FOUND', message: 'Offer not found for this Task' },
+      });
+      return;
+    }
+
+    if (offerService.isSealed(task)) {
+      const agent = await agentService.getAgentById(offer.agentId);
+      if (agent.ownerUserId !== req.user?.userId) {
+        res.status(403).json({
+          error: { code: 'FORBIDDEN', message: 'Offers are sealed until the auction closes' },
+        });
+        return;
+      }
+    }
+
+    const revisions = await offerService.listOfferRevisions(offer.id);
+    res.json({ data: { offer, revisions } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List offer revisions error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
 /**
  * GET /api/tasks/:id/offers
  * 
  * List offers for a Task.
+ * While a sealed-bid auction is open, only the caller's own offers are returned.
  */
-router.get('/:id/offers', async (req: AuthenticatedRequest, res: Response) => {
+router.get('/:id/offers', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
-    const offers = await offerService.listOffersForTask(req.params.id);
-    res.json({ data: { offers } });
+    const task = await taskService.getTaskById(req.params.id);
+    const offers = await offerService.listVisibleOffersForTask(task, req.user?.userId);
+    res.json({ data: { offers, sealed: offerService.isSealed(task) } });
   } catch (error) {
-    logger.error('List offers error', error as Error);
-    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('List offers error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
   }
 });
 
@@ -252,19 +731,23 @@ router.get('/:id/offers', async (req: AuthenticatedRequest, res: Response) => {
  * POST /api/tasks/:id/execution/start
  * 
  * Start executing a Task (assigned Agent only).
+ * Consensus Tasks have several assigned Agents; pass agentId to pick one.
  */
 router.post('/:id/execution/start', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
+    const data = startExecutionSchema.parse(req.body ?? {});
+
     // Get the task to find assigned agent
     const task = await taskService.getTaskById(req.params.id);
+    const agentId = data.agentId ?? task.assignedAgentId;
     
-    if (!task.assignedAgentId) {
-      res.status(400).json({ error: { code: 'NOT_ASSIGNED', message: 'Task is not assigned to any Agent' } });
+    if (!agentId || !taskService.isAssignedTo(task, agentId)) {
+      res.status(400).json({ error: { code: 'NOT_ASSIGNED', message: 'Task is not assigned to this Agent' } });
       return;
     }
 
     // Verify agent ownership
-    const agent = await agentService.getAgentById(task.assignedAgentId);
+    const agent = await agentService.getAgentById(agentId);
     if (agent.ownerUserId !== req.user!.userId) {
       res.status(403).json({
         error: { code: 'FORBIDDEN', message: 'You are not the assigned Agent' },
@@ -272,17 +755,21 @@ router.post('/:id/execution/start', authMiddleware, async (req: AuthenticatedReq
       return;
     }
 
-    const execution = await executionService.startExecution(req.params.id, task.assignedAgentId);
+    const execution = await executionService.startExecution(req.params.id, agentId);
 
     emitEvent('tasks:updated', { 
       taskId: req.params.id, 
       status: 'RUNNING',
-      agentId: task.assignedAgentId,
+      agentId,
     });
 
     res.json({ data: { execution, message: 'Execution started' } });
   } catch (error) {
-    if (error instanceof RunicError) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
       res.status(error.statusCode).json({
         error: { code: error.code, message: error.message },
       });
@@ -297,6 +784,7 @@ router.post('/:id/execution/start', authMiddleware, async (req: AuthenticatedReq
  * POST /api/tasks/:id/execution/complete
  * 
  * Complete Task execution (assigned Agent only).
+ * Consensus Tasks have several assigned Agents; pass agentId to pick one.
  */
 router.post('/:id/execution/complete', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
   try {
@@ -304,14 +792,15 @@ router.post('/:id/execution/complete', authMiddleware, async (req: Authenticated
     
     // Get the task to find assigned agent
     const task = await taskService.getTaskById(req.params.id);
+    const agentId = data.agentId ?? task.assignedAgentId;
     
-    if (!task.assignedAgentId) {
-      res.status(400).json({ error: { code: 'NOT_ASSIGNED', message: 'Task is not assigned to any Agent' } });
+    if (!agentId || !taskService.isAssignedTo(task, agentId)) {
+      res.status(400).json({ error: { code: 'NOT_ASSIGNED', message: 'Task is not assigned to this Agent' } });
       return;
     }
 
     // Verify agent ownership
-    const agent = await agentService.getAgentById(task.assignedAgentId);
+    const agent = await agentService.getAgentById(agentId);
     if (agent.ownerUserId !== req.user!.userId) {
       res.status(403).json({
         error: { code: 'FORBIDDEN', message: 'You are not the assigned Agent' },
@@ -321,7 +810,7 @@ router.post('/:id/execution/complete', authMiddleware, async (req: Authenticated
     
     const execution = await executionService.completeExecution(
       req.params.id,
-      task.assignedAgentId,
+      agentId,
       {
         success: data.success,
         signedResultPayload: data.signedResultPayload,
@@ -333,7 +822,7 @@ router.post('/:id/execution/complete', authMiddleware, async (req: Authenticated
 
     emitEvent('executions:completed', { 
       taskId: req.params.id, 
-      agentId: task.assignedAgentId,
+      agentId,
       execution,
       success: data.success,
     });
@@ -360,10 +849,200 @@ router.post('/:id/execution/complete', authMiddleware, async (req: Authenticated
   }
 });
 
-export default router;
+/**
+ * POST /api/tasks/:id/review/accept
+ *
+ * Accept the delivered result, releasing payment (creator only).
+ */
+router.post('/:id/review/accept', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const task = await reviewService.acceptResult(req.params.id, req.user!.userId);
 
+    res.json({ data: { task, message: 'Result accepted. Payment created.' } });
+  } catch (error) {
+    if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Accept result error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
 
+/**
+ * POST /api/tasks/:id/review/revision
+ *
+ * Send the delivered result back to the Agent with feedback (creator only).
+ */
+router.post('/:id/review/revision', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = requestRevisionSchema.parse(req.body);
+    const execution = await reviewService.requestRevision(req.params.id, req.user!.userId, data.feedback);
 
+    res.json({ data: { execution, message: 'Revision requested. The Agent is working on it again.' } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Request revision error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
 
+/**
+ * POST /api/tasks/:id/review/dispute
+ *
+ * Dispute the delivered result, withholding payment (creator only).
+ */
+router.post('/:id/review/dispute', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = openDisputeSchema.parse(req.body);
+    const dispute = await reviewService.openDispute(req.params.id, req.user!.userId, data.reason);
 
+    res.json({ data: { dispute, message: 'Result disputed. Payment is withheld until the arbiter rules.' } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Open dispute error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * GET /api/tasks/:id/milestones
+ *
+ * List a Task's milestones in delivery order.
+ */
+router.get('/:id/milestones', optionalAuthMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const milestones = await milestoneService.listMilestones(req.params.id);
+
+    res.json({ data: { milestones } });
+  } catch (error) {
+    logger.error('List milestones error', error as Error);
+    res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+  }
+});
+
+/**
+ * POST /api/tasks/:id/milestones/:index/submit
+ *
+ * Deliver the next milestone (assigned Agent only).
+ */
+router.post('/:id/milestones/:index/submit', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = submitMilestoneSchema.parse(req.body);
+    const index = z.coerce.number().int().min(0).parse(req.params.index);
+
+    const task = await taskService.getTaskById(req.params.id);
+    if (!task.assignedAgentId) {
+      res.status(400).json({ error: { code: 'NOT_ASSIGNED', message: 'Task is not assigned to an Agent' } });
+      return;
+    }
+
+    // Verify agent ownership
+    const agent = await agentService.getAgentById(task.assignedAgentId);
+    if (agent.ownerUserId !== req.user!.userId) {
+      res.status(403).json({
+        error: { code: 'FORBIDDEN', message: 'You are not the assigned Agent' },
+      });
+      return;
+    }
+
+    const milestone = await milestoneService.submitMilestone(task.id, agent.id, index, data);
+
+    res.json({ data: { milestone, message: `Milestone ${index} submitted for approval` } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Submit milestone error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/tasks/:id/milestones/:index/approve
+ *
+ * Approve a submitted milestone, paying for it (creator only).
+ */
+router.post('/:id/milestones/:index/approve', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const index = z.coerce.number().int().min(0).parse(req.params.index);
+    const milestone = await milestoneService.approveMilestone(req.params.id, req.user!.userId, index);
+
+    res.json({ data: { milestone, message: `Milestone ${index} approved. Payment created.` } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Approve milestone error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
+
+/**
+ * POST /api/tasks/:id/milestones/:index/reject
+ *
+ * Send a submitted milestone back to the Agent with feedback (creator only).
+ */
+router.post('/:id/milestones/:index/reject', authMiddleware, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const data = rejectMilestoneSchema.parse(req.body);
+    const index = z.coerce.number().int().min(0).parse(req.params.index);
+    const milestone = await milestoneService.rejectMilestone(
+      req.params.id,
+      req.user!.userId,
+      index,
+      data.feedback
+    );
+
+    res.json({ data: { milestone, message: `Milestone ${index} sent back to the Agent` } });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: { code: 'VALIDATION_ERROR', message: 'Validation error', details: error.errors },
+      });
+    } else if (error instanceof RunicError) {
+      res.status(error.statusCode).json({
+        error: { code: error.code, message: error.message },
+      });
+    } else {
+      logger.error('Reject milestone error', error as Error);
+      res.status(500).json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  }
+});
 
+export default router;
@@ -0,0 +1,9 @@
+import { config } from '../config/index.js';
+
+/**
+ * Check if a user is a platform admin (ADMIN_USER_IDS)
+ * Platform admins run the finance side: ledger, payouts and refunds.
+ */
+export function isPlatformAdmin(userId: string): boolean {
+  return config.admin.userIds.includes(userId);
+}
@@ -6,6 +6,8 @@ export {
   runecasterOwnerMiddleware,
 } from './jwt.js';
 
+export { isPlatformAdmin } from './admin.js';
+
 export type { JWTPayload, AuthenticatedRequest } from './jwt.js';
 
 
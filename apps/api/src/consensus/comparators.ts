@@ -0,0 +1,88 @@
+/**
+ * Consensus Comparators
+ *
+ * Built-in ways to decide whether two Agents' signedResultPayloads agree.
+ * Comparators should be symmetric; grouping compares each result against
+ * the first result of every existing group.
+ */
+
+/**
+ * Per-Task comparator settings
+ */
+export interface ComparatorOptions {
+  tolerance: number;
+}
+
+export interface ConsensusComparator {
+  name: string;
+  description: string;
+  equals(a: string, b: string, options: ComparatorOptions): boolean;
+}
+
+/**
+ * Serialize JSON with object keys sorted, so key order doesn't matter
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Byte-for-byte equality (ignoring surrounding whitespace)
+ */
+export const exactComparator: ConsensusComparator = {
+  name: 'exact',
+  description: 'Results must be identical strings (surrounding whitespace ignored)',
+  equals(a, b) {
+    return a.trim() === b.trim();
+  },
+};
+
+/**
+ * Structural JSON equality; falls back to exact when either side isn't JSON
+ */
+export const jsonComparator: ConsensusComparator = {
+  name: 'json',
+  description: 'Results must be equal JSON values (key order and formatting ignored)',
+  equals(a, b, options) {
+    try {
+      return canonicalJson(JSON.parse(a)) === canonicalJson(JSON.parse(b));
+    } catch {
+      return exactComparator.equals(a, b, options);
+    }
+  },
+};
+
+/**
+ * Numbers within an absolute tolerance of each other (e.g. oracle prices)
+ */
+export const numericComparator: ConsensusComparator = {
+  name: 'numeric',
+  description: 'Results must be numbers within the Task\'s consensusTolerance of each other',
+  equals(a, b, options) {
+    const x = Number(a.trim());
+    const y = Number(b.trim());
+
+    if (!Number.isFinite(x) || !Number.isFinite(y)) {
+      return false;
+    }
+
+    return Math.abs(x - y) <= options.tolerance;
+  },
+};
+
+export const BUILT_IN_COMPARATORS: ConsensusComparator[] = [
+  exactComparator,
+  jsonComparator,
+  numericComparator,
+];
@@ -0,0 +1,91 @@
+/**
+ * Consensus Module
+ *
+ * Registry of result comparators for multi-winner Tasks. N Agents execute
+ * the same Task; their results are grouped with the Task's comparator and
+ * the largest group is accepted if it reaches the Task's threshold.
+ */
+
+import { ValidationError } from '../utils/errors.js';
+import { BUILT_IN_COMPARATORS } from './comparators.js';
+import type { ComparatorOptions, ConsensusComparator } from './comparators.js';
+
+export {
+  exactComparator,
+  jsonComparator,
+  numericComparator,
+} from './comparators.js';
+
+export type { ComparatorOptions, ConsensusComparator } from './comparators.js';
+
+const DEFAULT_COMPARATOR = 'exact';
+
+const registry = new Map<string, ConsensusComparator>();
+
+/**
+ * Register a comparator (replaces any comparator with the same name)
+ */
+export function registerComparator(comparator: ConsensusComparator): void {
+  registry.set(comparator.name, comparator);
+}
+
+BUILT_IN_COMPARATORS.forEach(registerComparator);
+
+/**
+ * Get a comparator by name (defaults to "exact")
+ */
+export function getComparator(name?: string | null): ConsensusComparator {
+  const comparatorName = name || DEFAULT_COMPARATOR;
+  const comparator = registry.get(comparatorName);
+
+  if (!comparator) {
+    throw new ValidationError(
+      `Unknown consensus comparator '${comparatorName}'. Available: ${[...registry.keys()].join(', ')}`
+    );
+  }
+
+  return comparator;
+}
+
+/**
+ * List all registered comparators
+ */
+export function listComparators(): ConsensusComparator[] {
+  return [...registry.values()];
+}
+
+/**
+ * Agreeing results required out of winnerCount (defaults to a strict majority)
+ */
+export function resolveThreshold(winnerCount: number, threshold?: number | null): number {
+  return threshold ?? Math.floor(winnerCount / 2) + 1;
+}
+
+/**
+ * Group results that agree with each other, largest group first
+ *
+ * Each result joins the first group whose first member it equals, so
+ * non-transitive comparators (numeric tolerance) stay deterministic.
+ */
+export function groupResults<T>(
+  results: T[],
+  payloadOf: (result: T) => string,
+  comparator: ConsensusComparator,
+  options: ComparatorOptions
+): T[][] {
+  const groups: T[][] = [];
+
+  for (const result of results) {
+    const group = groups.find(members =>
+      comparator.equals(payloadOf(members[0]), payloadOf(result), options)
+    );
+
+    if (group) {
+      group.push(result);
+    } else {
+      groups.push([result]);
+    }
+  }
+
+  return groups.sort((a, b) => b.length - a.length);
+}
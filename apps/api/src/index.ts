@@ -3,9 +3,21 @@ import cors from 'cors';
 import compression from 'compression';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
+import type { Payment, PayoutBatch } from '@prisma/client';
 import { config } from './config/index.js';
 import { initializeWebSocket, emitEvent, emitToAgent } from './websocket/index.js';
-import { auctionEngine } from './services/index.js';
+import {
+  auctionEngine,
+  consensusService,
+  shardService,
+  workflowService,
+  taskScheduler,
+  reviewService,
+  disputeService,
+  milestoneService,
+  escrowService,
+  payoutService,
+} from './services/index.js';
 import apiRoutes from './api/index.js';
 import logger from './utils/logger.js';
 import { RunicError } from './utils/errors.js';
@@ -129,13 +141,30 @@ auctionEngine.on('auction:started', (data) => {
 });
 
 auctionEngine.on('auction:offer', (data) => {
-  emitEvent('offers:created', data);
+  emitEvent(data.amended ? 'offers:updated' : 'offers:created', data);
 });
 
 auctionEngine.on('auction:completed', (data) => {
   emitEvent('auctions:completed', data);
   
-  // Notify the winning agent
+  // Notify the winning agent(s)
+  for (const offer of data.winningOffers) {
+    emitToAgent(offer.agentId, 'tasks:assigned', {
+      taskId: data.taskId,
+      offer,
+    });
+  }
+});
+
+auctionEngine.on('auction:abandoned', (data) => {
+  emitEvent('tasks:updated', {
+    taskId: data.taskId,
+    status: data.status,
+    agentId: data.previousAgentId,
+    reason: 'START_TIMEOUT',
+  });
+
+  // Notify the runner-up that took over
   if (data.winningOffer) {
     emitToAgent(data.winningOffer.agentId, 'tasks:assigned', {
       taskId: data.taskId,
@@ -145,9 +174,186 @@ auctionEngine.on('auction:completed', (data) => {
 });
 
 auctionEngine.on('auction:no-offers', (data) => {
-  emitEvent('tasks:updated', { ...data, status: 'OPEN' });
+  emitEvent('tasks:updated', data);
+});
+
+auctionEngine.on('auction:open-failed', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'AUCTION_OPEN_FAILED' });
+});
+
+consensusService.on('consensus:resolved', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'CONSENSUS' });
+});
+
+shardService.on('shards:progress', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'SHARD_PROGRESS' });
+});
+
+// All map shards are done: auction the reduce shard
+shardService.on('shards:reduce-ready', (task) => {
+  auctionEngine.startAuction(task)
+    .then((auction) => {
+      emitEvent('tasks:created', {
+        task,
+        auctionStartsAt: auction?.startedAt ?? null,
+        auctionEndsAt: auction?.endsAt ?? null,
+      });
+    })
+    .catch((error) => {
+      logger.error(`Failed to start reduce auction for Task ${task.id}`, error as Error);
+    });
+});
+
+// A failed sharded Task cancelled its unfinished shards: stop their auctions
+shardService.on('shards:cancelled', (data) => {
+  for (const shardId of data.shardIds) {
+    emitEvent('tasks:updated', {
+      taskId: shardId,
+      parentTaskId: data.taskId,
+      status: 'CANCELLED',
+      reason: 'PARENT_FAILED',
+    });
+
+    if (auctionEngine.isAuctionActive(shardId) || auctionEngine.isAuctionScheduled(shardId)) {
+      auctionEngine.cancelAuction(shardId).catch((error) => {
+        logger.error(`Failed to cancel auction of shard ${shardId}`, error as Error);
+      });
+    }
+  }
+});
+
+// Prerequisites done: auction the dependent Task
+workflowService.on('workflow:unblocked', (task) => {
+  auctionEngine.startAuction(task)
+    .then((auction) => {
+      emitEvent('tasks:created', {
+        task,
+        auctionStartsAt: auction?.startedAt ?? null,
+        auctionEndsAt: auction?.endsAt ?? null,
+      });
+    })
+    .catch((error) => {
+      logger.error(`Failed to start auction for unblocked Task ${task.id}`, error as Error);
+    });
+});
+
+workflowService.on('workflow:cancelled', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'PREREQUISITE_FAILED' });
+});
+
+taskScheduler.on('scheduler:task-expired', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'EXPIRED', reason: 'DEADLINE_PASSED' });
+});
+
+// Running Agents hear about a timeout before it hits, then when it does
+taskScheduler.on('scheduler:timeout-warning', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'RUNNING', reason: 'TIMEOUT_WARNING' });
+});
+
+taskScheduler.on('scheduler:timed-out', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'EXECUTION_TIMEOUT' });
+});
+
+// The assigned Agent hears how its result was reviewed
+reviewService.on('review:accepted', (data) => {
+  emitEvent('tasks:updated', {
+    ...data,
+    status: 'COMPLETED',
+    reason: data.automatic ? 'REVIEW_AUTO_ACCEPTED' : 'REVIEW_ACCEPTED',
+  });
+});
+
+reviewService.on('review:revision-requested', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'RUNNING', reason: 'REVISION_REQUESTED' });
+});
+
+reviewService.on('review:disputed', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'DISPUTED', reason: 'DISPUTED' });
+});
+
+// Both sides of a dispute follow it; the Agent hears it on its own channel
+disputeService.on('disputes:opened', (data) => {
+  emitEvent('disputes:updated', { ...data, status: 'OPEN', reason: 'DISPUTE_OPENED' });
+});
+
+disputeService.on('disputes:evidence', (data) => {
+  emitEvent('disputes:updated', { ...data, status: 'OPEN', reason: 'EVIDENCE_SUBMITTED' });
+});
+
+disputeService.on('disputes:resolved', (data) => {
+  emitEvent('disputes:updated', { ...data, taskStatus: data.status, status: 'RESOLVED', reason: 'VERDICT' });
+  emitEvent('tasks:updated', { ...data, reason: 'DISPUTE_RESOLVED' });
+});
+
+// Milestone deliveries and approvals reach the creator and the Agent
+milestoneService.on('milestones:submitted', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'RUNNING', reason: 'MILESTONE_SUBMITTED' });
+});
+
+milestoneService.on('milestones:approved', (data) => {
+  emitEvent('tasks:updated', {
+    ...data,
+    reason: data.automatic ? 'MILESTONE_AUTO_APPROVED' : 'MILESTONE_APPROVED',
+  });
+});
+
+milestoneService.on('milestones:rejected', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'RUNNING', reason: 'MILESTONE_REJECTED' });
+});
+
+milestoneService.on('milestones:cancelled', (data) => {
+  emitEvent('tasks:updated', { ...data, status: 'CANCELLED', reason: 'CANCELLED_PARTWAY' });
 });
 
+// A deposit funded a waiting Task: launch it (or its shards)
+escrowService.on('escrow:funded', (data) => {
+  emitEvent('tasks:updated', { taskId: data.taskId, status: data.status, reason: 'FUNDED' });
+
+  for (const task of data.tasks) {
+    if (task.status === 'BLOCKED') {
+      // Prerequisites may be done already; unblocking starts the auction
+      workflowService.evaluate(task.id).catch((error) => {
+        logger.error(`Failed to evaluate funded Task ${task.id}`, error as Error);
+      });
+      continue;
+    }
+
+    auctionEngine.startAuction(task)
+      .then((auction) => {
+        emitEvent('tasks:created', {
+          task,
+          auctionStartsAt: auction?.startedAt ?? null,
+          auctionEndsAt: auction?.endsAt ?? null,
+        });
+      })
+      .catch((error) => {
+        logger.error(`Failed to start auction for funded Task ${task.id}`, error as Error);
+      });
+  }
+});
+
+escrowService.on('escrow:expired', (data) => {
+  emitEvent('tasks:updated', { ...data, reason: 'NOT_FUNDED' });
+});
+
+// Batched payouts move many payments at once (SUBMITTED, CONFIRMED, COMPLETED or FAILED)
+const emitPayoutPayments = (data: { batch: PayoutBatch; payments: Payment[] }) => {
+  for (const payment of data.payments) {
+    emitEvent('payments:updated', {
+      payment,
+      taskId: payment.taskId,
+      agentId: payment.agentId,
+      status: payment.status,
+      payoutBatchId: data.batch.id,
+    });
+  }
+};
+
+payoutService.on('payouts:submitted', emitPayoutPayments);
+payoutService.on('payouts:confirmed', emitPayoutPayments);
+payoutService.on('payouts:finalized', emitPayoutPayments);
+payoutService.on('payouts:failed', emitPayoutPayments);
+
 // Start server
 const PORT = config.port;
 
@@ -169,11 +375,20 @@ httpServer.listen(PORT, () => {
 ║                                                              ║
 ╚══════════════════════════════════════════════════════════════╝
   `);
+
+  // Resume auctions that were open before the last shutdown
+  auctionEngine.recoverAuctions().catch((error) => {
+    logger.error('Failed to recover auctions', error as Error);
+  });
+
+  // Enforce deadlines and execution timeouts
+  taskScheduler.start();
 });
 
 // Graceful shutdown
 process.on('SIGINT', () => {
   logger.info('Shutting down Runic Protocol API...');
+  taskScheduler.stop();
   httpServer.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -182,6 +397,7 @@ process.on('SIGINT', () => {
 
 process.on('SIGTERM', () => {
   logger.info('Received SIGTERM, shutting down...');
+  taskScheduler.stop();
   httpServer.close(() => {
     process.exit(0);
   });
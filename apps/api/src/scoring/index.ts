@@ -0,0 +1,133 @@
+/**
+ * Offer Scoring Module
+ *
+ * Registry of scoring policies. Tasks pick a policy (and optional weight
+ * overrides) at creation; Offers are scored with it on insert and rescored
+ * when the auction closes.
+ */
+
+import { config } from '../config/index.js';
+import { ValidationError } from '../utils/errors.js';
+import { BUILT_IN_POLICIES } from './policies.js';
+import type { ScoringInput, ScoringPolicy, ScoringWeights } from './policies.js';
+
+export {
+  logPolicy,
+  priceOnlyPolicy,
+  fastestEtaPolicy,
+  reputationWeightedPolicy,
+  deadlineAwarePolicy,
+} from './policies.js';
+
+export type { ScoringInput, ScoringPolicy, ScoringWeights } from './policies.js';
+
+const registry = new Map<string, ScoringPolicy>();
+
+/**
+ * Register a scoring policy (replaces any policy with the same name)
+ */
+export function registerScoringPolicy(policy: ScoringPolicy): void {
+  registry.set(policy.name, policy);
+}
+
+BUILT_IN_POLICIES.forEach(registerScoringPolicy);
+
+/**
+ * Get a scoring policy by name (defaults to SCORING_DEFAULT_POLICY)
+ */
+export function getScoringPolicy(name?: string | null): ScoringPolicy {
+  const policyName = name || config.scoring.defaultPolicy;
+  const policy = registry.get(policyName);
+
+  if (!policy) {
+    throw new ValidationError(
+      `Unknown scoring policy '${policyName}'. Available: ${[...registry.keys()].join(', ')}`
+    );
+  }
+
+  return policy;
+}
+
+/**
+ * List all registered scoring policies
+ */
+export function listScoringPolicies(): ScoringPolicy[] {
+  return [...registry.values()];
+}
+
+/**
+ * Merge weight overrides onto a policy's defaults
+ * Throws ValidationError for weights the policy doesn't know about, or below 0
+ */
+export function resolveWeights(policy: ScoringPolicy, overrides?: unknown): ScoringWeights {
+  if (overrides === null || overrides === undefined) {
+    return { ...policy.defaultWeights };
+  }
+
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new ValidationError('Scoring weights must be an object of numbers');
+  }
+
+  const weights = { ...policy.defaultWeights };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!(key in policy.defaultWeights)) {
+      throw new ValidationError(
+        `Unknown weight '${key}' for scoring policy '${policy.name}'. ` +
+        `Known weights: ${Object.keys(policy.defaultWeights).join(', ')}`
+      );
+    }
+    // Negative weights would make scores rise with price, breaking the sealed second price
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new ValidationError(`Scoring weight '${key}' must be a finite number of 0 or more`);
+    }
+    weights[key] = value;
+  }
+
+  return weights;
+}
+
+/**
+ * Score an Offer, rounded to 3 decimals
+ */
+export function computeScore(
+  policy: ScoringPolicy,
+  weights: ScoringWeights,
+  input: ScoringInput
+): number {
+  return Math.round(policy.score(input, weights) * 1000) / 1000;
+}
+
+/**
+ * Find the highest price in [minPrice, maxPrice] that still scores at least
+ * targetScore, holding everything but the price fixed (binary search).
+ */
+export function findPriceForScore(
+  policy: ScoringPolicy,
+  weights: ScoringWeights,
+  input: ScoringInput,
+  targetScore: number,
+  minPrice: bigint,
+  maxPrice: bigint
+): bigint {
+  const scoreAt = (priceLamports: bigint) =>
+    computeScore(policy, weights, { ...input, priceLamports });
+
+  if (maxPrice <= minPrice || scoreAt(maxPrice) >= targetScore) {
+    return maxPrice > minPrice ? maxPrice : minPrice;
+  }
+
+  let low = minPrice;  // scores >= targetScore
+  let high = maxPrice; // scores < targetScore
+
+  while (high - low > 1n) {
+    const mid = (low + high) / 2n;
+    if (scoreAt(mid) >= targetScore) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return low;
+}
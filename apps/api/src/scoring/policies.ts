@@ -0,0 +1,121 @@
+/**
+ * Offer Scoring Policies
+ *
+ * Built-in policies used to rank Offers in an auction. Every policy must be
+ * non-increasing in price (a cheaper offer never scores worse, all else equal);
+ * second-price auctions rely on this to search for the clearing price.
+ */
+
+import { config } from '../config/index.js';
+
+/**
+ * Everything a policy may look at when scoring an Offer
+ */
+export interface ScoringInput {
+  priceLamports: bigint;
+  etaSeconds: number;
+  reputationScore: number;
+  budgetLamports: bigint;
+  deadline: Date | null;
+  now: Date;
+}
+
+export type ScoringWeights = Record<string, number>;
+
+export interface ScoringPolicy {
+  name: string;
+  description: string;
+  defaultWeights: ScoringWeights;
+  score(input: ScoringInput, weights: ScoringWeights): number;
+}
+
+const logPrice = (input: ScoringInput) => Math.log(Number(input.priceLamports) + 1);
+const logEta = (input: ScoringInput) => Math.log(input.etaSeconds + 1);
+const priceShare = (input: ScoringInput) =>
+  Number(input.priceLamports) / Math.max(Number(input.budgetLamports), 1);
+
+/**
+ * score = base - (α × log(price)) - (β × log(eta + 1)) + (γ × reputation)
+ */
+export const logPolicy: ScoringPolicy = {
+  name: 'log',
+  description: 'Balanced: log-scaled price and ETA, plus reputation',
+  defaultWeights: {
+    alpha: config.scoring.alpha,
+    beta: config.scoring.beta,
+    gamma: config.scoring.gamma,
+    base: config.scoring.base,
+  },
+  score(input, w) {
+    return w.base - (w.alpha * logPrice(input)) - (w.beta * logEta(input)) + (w.gamma * input.reputationScore);
+  },
+};
+
+/**
+ * score = base × (1 - price / budget)
+ */
+export const priceOnlyPolicy: ScoringPolicy = {
+  name: 'price-only',
+  description: 'Cheapest offer wins, ETA and reputation are ignored',
+  defaultWeights: { base: 100 },
+  score(input, w) {
+    return w.base * (1 - priceShare(input));
+  },
+};
+
+/**
+ * score = base - (β × log(eta + 1)) - (α × price / budget)
+ *
+ * The price term is a small tie-breaker between equally fast offers.
+ */
+export const fastestEtaPolicy: ScoringPolicy = {
+  name: 'fastest-eta',
+  description: 'Fastest offer wins, price only breaks ties',
+  defaultWeights: { base: 100, beta: 10, alpha: 0.01 },
+  score(input, w) {
+    return w.base - (w.beta * logEta(input)) - (w.alpha * priceShare(input));
+  },
+};
+
+/**
+ * score = (base - (α × log(price)) - (β × log(eta + 1))) × (reputation / 5)^γ
+ */
+export const reputationWeightedPolicy: ScoringPolicy = {
+  name: 'reputation-weighted',
+  description: 'Log price/ETA score scaled by reputation, so trusted agents dominate',
+  defaultWeights: { base: 100, alpha: 1.0, beta: 0.5, gamma: 2.0 },
+  score(input, w) {
+    const reputationFactor = Math.pow(Math.max(input.reputationScore, 0) / 5, w.gamma);
+    return (w.base - (w.alpha * logPrice(input)) - (w.beta * logEta(input))) * reputationFactor;
+  },
+};
+
+/**
+ * score = log policy - (δ × eta / secondsUntilDeadline)
+ *
+ * Offers that use up more of the time left before the deadline score worse.
+ * Without a deadline this is the log policy.
+ */
+export const deadlineAwarePolicy: ScoringPolicy = {
+  name: 'deadline-aware',
+  description: 'Log policy plus a penalty for ETAs that eat into the time left before the deadline',
+  defaultWeights: { ...logPolicy.defaultWeights, delta: 20 },
+  score(input, w) {
+    const base = logPolicy.score(input, w);
+    if (!input.deadline) {
+      return base;
+    }
+
+    const secondsLeft = Math.max((input.deadline.getTime() - input.now.getTime()) / 1000, 1);
+    const utilization = Math.min(input.etaSeconds / secondsLeft, 10);
+    return base - (w.delta * utilization);
+  },
+};
+
+export const BUILT_IN_POLICIES: ScoringPolicy[] = [
+  logPolicy,
+  priceOnlyPolicy,
+  fastestEtaPolicy,
+  reputationWeightedPolicy,
+  deadlineAwarePolicy,
+];
@@ -1,6 +1,6 @@
-import { Prisma, Agent } from '@prisma/client';
+import { Prisma, Agent, Task } from '@prisma/client';
 import prisma from '../utils/prisma.js';
-import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { NotFoundError, ValidationError, EligibilityError } from '../utils/errors.js';
 import logger from '../utils/logger.js';
 
 export interface CreateAgentInput {
@@ -144,7 +144,7 @@ export class AgentService {
     });
 
     const completed = executions.filter(e => e.status === 'SUCCESS');
-    const failed = executions.filter(e => e.status === 'FAILURE');
+    const failed = executions.filter(e => ['FAILURE', 'ABANDONED', 'TIMED_OUT'].includes(e.status));
 
     // Calculate average completion time
     let avgCompletionSeconds: number | null = null;
@@ -206,6 +206,84 @@ export class AgentService {
     return requiredCapabilities.every(cap => agent.capabilities.includes(cap));
   }
 
+  /**
+   * List the Task eligibility rules an Agent fails (empty when eligible)
+   */
+  getEligibilityViolations(agent: Agent, task: Task): string[] {
+    const violations: string[] = [];
+
+    if (task.deniedAgentIds.includes(agent.id)) {
+      violations.push('Agent is denylisted for this Task');
+    }
+
+    if (task.deniedOwnerIds.includes(agent.ownerUserId)) {
+      violations.push("Agent's owner is denylisted for this Task");
+    }
+
+    if (task.failedAgentIds.includes(agent.id)) {
+      violations.push('Agent already failed this Task');
+    }
+
+    // Agent and owner allowlists combine: matching either one is enough
+    const hasAllowlist = task.allowedAgentIds.length > 0 || task.allowedOwnerIds.length > 0;
+    if (
+      hasAllowlist &&
+      !task.allowedAgentIds.includes(agent.id) &&
+      !task.allowedOwnerIds.includes(agent.ownerUserId)
+    ) {
+      violations.push('Agent is not on the allowlist for this Task');
+    }
+
+    if (task.minReputation !== null && agent.reputationScore < task.minReputation) {
+      violations.push(
+        `Agent reputation (${agent.reputationScore}) is below the minimum (${task.minReputation})`
+      );
+    }
+
+    if (task.minTasksCompleted !== null && agent.totalTasksCompleted < task.minTasksCompleted) {
+      violations.push(
+        `Agent has completed ${agent.totalTasksCompleted} tasks, minimum is ${task.minTasksCompleted}`
+      );
+    }
+
+    if (task.maxFailureRatio !== null) {
+      const failureRatio = this.getFailureRatio(agent);
+      if (failureRatio > task.maxFailureRatio) {
+        violations.push(
+          `Agent failure ratio (${failureRatio.toFixed(2)}) exceeds the maximum (${task.maxFailureRatio})`
+        );
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Check if Agent satisfies a Task's eligibility rules
+   */
+  isEligibleForTask(agent: Agent, task: Task): boolean {
+    return this.getEligibilityViolations(agent, task).length === 0;
+  }
+
+  /**
+   * Throw an EligibilityError listing every rule the Agent fails
+   */
+  assertEligibleForTask(agent: Agent, task: Task): void {
+    const violations = this.getEligibilityViolations(agent, task);
+
+    if (violations.length > 0) {
+      throw new EligibilityError(`Agent is not eligible for this Task: ${violations.join('; ')}`);
+    }
+  }
+
+  /**
+   * Share of finished Tasks the Agent failed (0 with no history)
+   */
+  getFailureRatio(agent: Agent): number {
+    const finished = agent.totalTasksCompleted + agent.totalTasksFailed;
+    return finished === 0 ? 0 : agent.totalTasksFailed / finished;
+  }
+
   /**
    * Basic validation for Solana addresses (base58, 32-44 chars)
    */
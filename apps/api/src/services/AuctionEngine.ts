@@ -1,40 +1,105 @@
-import { Task, Offer } from '@prisma/client';
+import { Task, Offer, Auction, AuctionMode } from '@prisma/client';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
 import prisma from '../utils/prisma.js';
 import { taskService } from './TaskService.js';
 import { offerService } from './OfferService.js';
+import { agentService } from './AgentService.js';
+import { reputationService } from './ReputationService.js';
+import { consensusService } from './ConsensusService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
 import { EventEmitter } from 'events';
 
 interface AuctionState {
+  auctionId: string;
   taskId: string;
   task: Task;
+  config: AuctionConfig;
   startedAt: Date;
+  endsAt: Date;
   timer: NodeJS.Timeout;
 }
 
+/**
+ * Settings captured on the Auction row when it starts
+ */
+export interface AuctionConfig {
+  windowMs: number;
+  mode: AuctionMode;
+  minOffers: number;
+  reservePriceLamports?: string; // BigInt as string (JSON column)
+  // REVERSE_ENGLISH only
+  minScoreStep?: number;
+  extensionWindowMs?: number;
+  extensionMs?: number;
+}
+
+/**
+ * What happened to a Task after an auction ended without a winner
+ */
+export interface ReauctionOutcome {
+  status: 'OPEN' | 'EXPIRED';
+  reauctionAt: Date | null;
+  reauctionCount?: number;
+  budgetLamports?: string; // BigInt as string
+  reason?: string;
+}
+
+// Scheduled auctions that fail to open are retried this often, this many times
+const SCHEDULED_START_RETRY_MS = 30 * 1000;
+const MAX_SCHEDULED_START_ATTEMPTS = 3;
+
 export interface AuctionResult {
   taskId: string;
   winningOffer: Offer | null;
+  winningOffers: Offer[]; // every winner (several for consensus Tasks)
   totalOffers: number;
   auctionDurationMs: number;
+  buyNow: boolean; // won instantly through the Task's buy-now condition
 }
 
 /**
  * AuctionEngine - Manages real-time Task auctions
- * 
- * When a Task is created, an auction is started with a configurable window.
- * Agents submit offers during this window. When the timer expires,
- * the best offer wins and the Task is assigned.
- * 
+ *
+ * When a Task is created, an auction is started with a configurable window
+ * (per Task, falling back to AUCTION_WINDOW_MS), or scheduled for the Task's
+ * auctionStartsAt. Agents submit offers during this window. When the timer
+ * expires, the best offer wins and the Task is assigned, provided the Task's
+ * minOffers was reached.
+ *
+ * Auctions are persisted as Auction rows; only the timers live in memory.
+ * On boot, recoverAuctions() closes overdue auctions and re-arms the rest.
+ *
+ * Reverse English auctions move their end time: an offer landing in the
+ * final window pushes the deadline back, and 'auction:offer' carries it.
+ *
+ * An offer meeting the Task's buy-now condition wins immediately: the
+ * timer is skipped and the auction closes through the usual award path.
+ *
+ * Consensus Tasks award their top winnerCount offers, one Execution each.
+ *
+ * Winners must start execution before the Task's start deadline; otherwise
+ * the Task passes to the best valid runner-up, or goes back to auction.
+ *
+ * Auctions that end without a winner follow the Task's re-auction policy:
+ * a SCHEDULED retry after a backoff (optionally with a higher budget), or
+ * EXPIRED once the policy is exhausted.
+ *
  * Events emitted:
  * - 'auction:started' - when a new auction begins
- * - 'auction:offer' - when a new offer is received
+ * - 'auction:offer' - when an offer is received or amended (with the current deadline)
  * - 'auction:completed' - when auction ends with a winner
- * - 'auction:no-offers' - when auction ends with no offers
+ * - 'auction:no-offers' - when auction ends with no offers (with the re-auction outcome)
+ * - 'auction:abandoned' - when a winner didn't start in time (runner-up assigned or re-auctioned)
+ * - 'auction:open-failed' - when a scheduled auction couldn't be opened and its Task expired
  */
 export class AuctionEngine extends EventEmitter {
   private activeAuctions: Map<string, AuctionState> = new Map();
+  private scheduledStarts: Map<string, NodeJS.Timeout> = new Map();
+  private startAttempts: Map<string, number> = new Map(); // failed openings of scheduled auctions
+  private startTimeouts: Map<string, NodeJS.Timeout> = new Map();
 
   constructor() {
     super();
@@ -43,134 +108,538 @@ export class AuctionEngine extends EventEmitter {
 
   /**
    * Start an auction for a Task
+   *
+   * If the Task has a future auctionStartsAt, the auction is persisted as
+   * SCHEDULED and opens on its own; the Task stays OPEN until then.
    */
-  async startAuction(task: Task): Promise<void> {
+  async startAuction(task: Task): Promise<Auction | null> {
     // Check if auction already exists
-    if (this.activeAuctions.has(task.id)) {
+    if (this.activeAuctions.has(task.id) || this.scheduledStarts.has(task.id)) {
       logger.warn(`Auction already active for Task ${task.id}`);
-      return;
+      return null;
+    }
+
+    const existing = await prisma.auction.findFirst({
+      where: { taskId: task.id, status: { in: ['SCHEDULED', 'OPEN'] } },
+    });
+
+    if (existing) {
+      logger.warn(`Auction already persisted for Task ${task.id}, re-arming timer`);
+      if (existing.status === 'SCHEDULED') {
+        this.armStartTimer(existing, task);
+      } else {
+        this.armTimer(existing, task);
+      }
+      return existing;
+    }
+
+    const auctionConfig = this.buildAuctionConfig(task);
+
+    if (task.auctionStartsAt && task.auctionStartsAt > new Date()) {
+      const auction = await prisma.auction.create({
+        data: {
+          taskId: task.id,
+          status: 'SCHEDULED',
+          startedAt: task.auctionStartsAt,
+          endsAt: new Date(task.auctionStartsAt.getTime() + auctionConfig.windowMs),
+          config: { ...auctionConfig },
+        },
+      });
+
+      this.armStartTimer(auction, task);
+
+      logger.info('Auction scheduled', {
+        taskId: task.id,
+        auctionId: auction.id,
+        startsAt: auction.startedAt,
+      });
+
+      return auction;
     }
 
+    return this.openAuction(task, auctionConfig);
+  }
+
+  /**
+   * Move a Task into auction and arm the close timer
+   */
+  private async openAuction(
+    task: Task,
+    auctionConfig: AuctionConfig,
+    scheduledAuctionId?: string
+  ): Promise<Auction> {
     // Update Task status to IN_AUCTION
     await taskService.updateTaskStatus(task.id, 'IN_AUCTION');
 
-    // Create auction timer
-    const timer = setTimeout(
-      () => this.closeAuction(task.id),
-      config.auction.windowMs
-    );
+    const startedAt = new Date();
+    const endsAt = new Date(startedAt.getTime() + auctionConfig.windowMs);
 
-    // Store auction state
-    const auctionState: AuctionState = {
-      taskId: task.id,
-      task,
-      startedAt: new Date(),
-      timer,
-    };
+    const auction = scheduledAuctionId
+      ? await prisma.auction.update({
+          where: { id: scheduledAuctionId },
+          data: { status: 'OPEN', startedAt, endsAt },
+        })
+      : await prisma.auction.create({
+          data: {
+            taskId: task.id,
+            status: 'OPEN',
+            startedAt,
+            endsAt,
+            config: { ...auctionConfig },
+          },
+        });
 
-    this.activeAuctions.set(task.id, auctionState);
+    this.armTimer(auction, task);
 
     logger.info('Auction started', {
       taskId: task.id,
+      auctionId: auction.id,
       title: task.title,
-      windowMs: config.auction.windowMs,
+      windowMs: auctionConfig.windowMs,
     });
 
     this.emit('auction:started', {
       taskId: task.id,
       task,
-      endsAt: new Date(Date.now() + config.auction.windowMs),
+      endsAt: auction.endsAt,
+    });
+
+    return auction;
+  }
+
+  /**
+   * Arm the timer that opens a SCHEDULED auction (at its start time by default)
+   */
+  private armStartTimer(
+    auction: Auction,
+    task: Task,
+    delayMs = Math.max(0, auction.startedAt.getTime() - Date.now())
+  ): void {
+    const existing = this.scheduledStarts.get(task.id);
+    if (existing) {
+      clearTimeout(existing);
+    }
+
+    const timer = setTimeout(() => {
+      this.openScheduledAuction(task.id).catch((error) => {
+        logger.error(`Failed to open scheduled auction for Task ${task.id}`, error as Error);
+      });
+    }, delayMs);
+
+    this.scheduledStarts.set(task.id, timer);
+  }
+
+  /**
+   * Open a SCHEDULED auction once its start time arrives
+   * A failed opening is retried a few times, then the Task expires so the
+   * creator gets the escrow back.
+   */
+  private async openScheduledAuction(taskId: string): Promise<void> {
+    this.scheduledStarts.delete(taskId);
+
+    const auction = await prisma.auction.findFirst({
+      where: { taskId, status: 'SCHEDULED' },
+      include: { task: true },
+    });
+
+    if (!auction) {
+      return;
+    }
+
+    try {
+      await this.openAuction(
+        auction.task,
+        auction.config as unknown as AuctionConfig,
+        auction.id
+      );
+      this.startAttempts.delete(taskId);
+      return;
+    } catch (error) {
+      logger.error(`Error opening scheduled auction for Task ${taskId}`, error as Error);
+    }
+
+    const attempts = (this.startAttempts.get(taskId) ?? 0) + 1;
+
+    if (attempts < MAX_SCHEDULED_START_ATTEMPTS) {
+      this.startAttempts.set(taskId, attempts);
+      this.armStartTimer(auction, auction.task, SCHEDULED_START_RETRY_MS);
+      return;
+    }
+
+    this.startAttempts.delete(taskId);
+
+    await prisma.auction.update({
+      where: { id: auction.id },
+      data: { status: 'CANCELLED', closedAt: new Date() },
     });
+
+    const task = await taskService.getTaskById(taskId);
+    if (task.status !== 'OPEN') {
+      return;
+    }
+
+    const outcome = await this.expireTask(
+      task,
+      `Auction could not be opened after ${attempts} attempts`
+    );
+
+    this.emit('auction:open-failed', { taskId, ...outcome });
   }
 
   /**
-   * Handle a new offer during an active auction
+   * Resolve the effective auction settings for a Task
    */
-  handleNewOffer(offer: Offer): void {
+  private buildAuctionConfig(task: Task): AuctionConfig {
+    const auctionConfig: AuctionConfig = {
+      windowMs: task.auctionWindowSeconds != null
+        ? task.auctionWindowSeconds * 1000
+        : config.auction.windowMs,
+      mode: task.auctionMode,
+      // Consensus Tasks need at least one offer per winner
+      minOffers: Math.max(task.minOffers, task.winnerCount),
+      reservePriceLamports: task.reservePriceLamports?.toString(),
+    };
+
+    if (task.auctionMode === 'REVERSE_ENGLISH') {
+      auctionConfig.minScoreStep = task.minScoreStep ?? config.auction.minScoreStep;
+      auctionConfig.extensionWindowMs = task.snipeWindowSeconds != null
+        ? task.snipeWindowSeconds * 1000
+        : config.auction.extensionWindowMs;
+      auctionConfig.extensionMs = task.extensionSeconds != null
+        ? task.extensionSeconds * 1000
+        : config.auction.extensionMs;
+    }
+
+    return auctionConfig;
+  }
+
+  /**
+   * Rehydrate persisted auctions after a restart
+   *
+   * Overdue auctions are closed right away, the rest get their timers back
+   * (scheduled ones included). Start timeouts of assigned Tasks are re-armed.
+   */
+  async recoverAuctions(): Promise<void> {
+    const auctions = await prisma.auction.findMany({
+      where: { status: { in: ['SCHEDULED', 'OPEN'] } },
+      include: { task: true },
+      orderBy: { endsAt: 'asc' },
+    });
+
+    let closed = 0;
+    let rearmed = 0;
+
+    for (const auction of auctions) {
+      const expectedStatus = auction.status === 'SCHEDULED' ? 'OPEN' : 'IN_AUCTION';
+
+      if (auction.task.status !== expectedStatus) {
+        // Task moved on (e.g. cancelled) while nobody owned the auction
+        await prisma.auction.update({
+          where: { id: auction.id },
+          data: { status: 'CANCELLED', closedAt: new Date() },
+        });
+        continue;
+      }
+
+      if (auction.status === 'SCHEDULED') {
+        // Opens immediately if the start time already passed
+        this.armStartTimer(auction, auction.task);
+        rearmed++;
+      } else if (auction.endsAt.getTime() <= Date.now()) {
+        await this.closeAuction(auction.taskId);
+        closed++;
+      } else {
+        this.armTimer(auction, auction.task);
+        rearmed++;
+      }
+    }
+
+    // Awarded Agents that haven't started yet
+    const pendingExecutions = await prisma.execution.findMany({
+      where: {
+        status: 'PENDING',
+        task: { status: { in: ['ASSIGNED', 'RUNNING'] } },
+      },
+      include: { task: true },
+    });
+
+    for (const execution of pendingExecutions) {
+      const { task } = execution;
+      const timeoutMs = task.startTimeoutSeconds != null
+        ? task.startTimeoutSeconds * 1000
+        : config.execution.startTimeoutMs;
+
+      // Runner-ups replacing a consensus Agent have their own deadline
+      const startDeadlineAt = task.winnerCount <= 1 && task.startDeadlineAt
+        ? task.startDeadlineAt
+        : new Date(execution.createdAt.getTime() + timeoutMs);
+
+      this.armStartTimeout(task.id, execution.agentId, startDeadlineAt);
+    }
+
+    logger.info('Auctions recovered', {
+      found: auctions.length,
+      closedOverdue: closed,
+      rearmed,
+      startTimeouts: pendingExecutions.length,
+    });
+  }
+
+  /**
+   * Arm (or re-arm) the in-memory close timer for a persisted auction
+   */
+  private armTimer(auction: Auction, task: Task): void {
+    const existing = this.activeAuctions.get(task.id);
+    if (existing) {
+      clearTimeout(existing.timer);
+    }
+
+    const delayMs = Math.max(0, auction.endsAt.getTime() - Date.now());
+    const timer = setTimeout(() => this.closeAuction(task.id), delayMs);
+
+    this.activeAuctions.set(task.id, {
+      auctionId: auction.id,
+      taskId: task.id,
+      task,
+      config: auction.config as unknown as AuctionConfig,
+      startedAt: auction.startedAt,
+      endsAt: auction.endsAt,
+      timer,
+    });
+  }
+
+  /**
+   * Handle a new or amended offer, extending reverse English auctions when it lands late
+   */
+  async handleNewOffer(offer: Offer, amended = false): Promise<void> {
     const auction = this.activeAuctions.get(offer.taskId);
-    
+    const task = auction?.task ?? await taskService.getTaskById(offer.taskId);
+
+    // Sealed-bid auctions only announce that a bid arrived, never its terms
+    const sealed = task.auctionMode === 'SEALED_SECOND_PRICE';
+
     if (!auction) {
       logger.warn(`No active auction for Task ${offer.taskId}`);
+
+      this.emit('auction:offer', {
+        taskId: offer.taskId,
+        ...(sealed ? { sealed: true } : { offer }),
+        auctionEndsAt: null,
+        amended,
+      });
       return;
     }
 
+    const extended = auction.config.mode === 'REVERSE_ENGLISH'
+      ? await this.extendIfSniped(auction)
+      : false;
+
     logger.info('Auction offer received', {
       taskId: offer.taskId,
       offerId: offer.id,
       score: offer.score,
+      extended,
+      amended,
     });
 
     this.emit('auction:offer', {
       taskId: offer.taskId,
-      offer,
-      auctionEndsAt: new Date(auction.startedAt.getTime() + config.auction.windowMs),
+      ...(sealed ? { sealed: true } : { offer }),
+      auctionEndsAt: auction.endsAt,
+      extended,
+      amended,
     });
+
+    // Instant award: an offer meeting the buy-now condition wins right away
+    if (offerService.hasBuyNowCondition(task)) {
+      const agent = await agentService.getAgentById(offer.agentId);
+
+      if (offerService.meetsBuyNowCondition(task, offer, agent.reputationScore)) {
+        logger.info('Buy-now condition met, closing auction', {
+          taskId: offer.taskId,
+          offerId: offer.id,
+        });
+
+        await this.closeAuction(offer.taskId, offer.id);
+      }
+    }
+  }
+
+  /**
+   * Push the end time back when an offer lands in the anti-sniping window
+   */
+  private async extendIfSniped(auction: AuctionState): Promise<boolean> {
+    const extensionWindowMs = auction.config.extensionWindowMs ?? config.auction.extensionWindowMs;
+    const extensionMs = auction.config.extensionMs ?? config.auction.extensionMs;
+
+    const remainingMs = auction.endsAt.getTime() - Date.now();
+    if (remainingMs > extensionWindowMs) {
+      return false;
+    }
+
+    // Never shorten the auction, only push the deadline back
+    const endsAt = new Date(Date.now() + extensionMs);
+    if (endsAt <= auction.endsAt) {
+      return false;
+    }
+
+    const updated = await prisma.auction.updateMany({
+      where: { id: auction.auctionId, status: 'OPEN' },
+      data: {
+        endsAt,
+        extensionCount: { increment: 1 },
+      },
+    });
+
+    // Auction closed in the meantime
+    if (updated.count === 0) {
+      return false;
+    }
+
+    clearTimeout(auction.timer);
+    auction.endsAt = endsAt;
+    auction.timer = setTimeout(() => this.closeAuction(auction.taskId), endsAt.getTime() - Date.now());
+
+    logger.info('Auction extended (anti-sniping)', {
+      taskId: auction.taskId,
+      endsAt,
+    });
+
+    return true;
   }
 
   /**
    * Close an auction and determine the winner
+   *
+   * With buyNowOfferId the auction closes early and that offer wins,
+   * regardless of minOffers or other scores.
    */
-  private async closeAuction(taskId: string): Promise<void> {
-    const auction = this.activeAuctions.get(taskId);
-    
+  private async closeAuction(taskId: string, buyNowOfferId?: string): Promise<void> {
+    const auction = await prisma.auction.findFirst({
+      where: { taskId, status: 'OPEN' },
+    });
+
     if (!auction) {
       logger.warn(`No auction found to close for Task ${taskId}`);
+      this.activeAuctions.delete(taskId);
+      return;
+    }
+
+    // The buy-now offer may have been withdrawn meanwhile; keep the auction running
+    if (buyNowOfferId) {
+      const buyNowOffer = await prisma.offer.findFirst({
+        where: { id: buyNowOfferId, status: 'PENDING' },
+      });
+
+      if (!buyNowOffer) {
+        return;
+      }
+    }
+
+    const state = this.activeAuctions.get(taskId);
+    if (state) {
+      clearTimeout(state.timer);
+    }
+
+    // Claim the auction so a concurrent close (or a second instance) is a no-op
+    const claimed = await prisma.auction.updateMany({
+      where: { id: auction.id, status: 'OPEN' },
+      data: { status: 'CLOSED', closedAt: new Date() },
+    });
+
+    this.activeAuctions.delete(taskId);
+
+    if (claimed.count === 0) {
       return;
     }
 
     try {
       const auctionDurationMs = Date.now() - auction.startedAt.getTime();
+      const task = await taskService.getTaskById(taskId);
+      const minOffers = (auction.config as unknown as AuctionConfig).minOffers ?? 1;
 
-      // Get all pending offers sorted by score
-      const offers = await offerService.getPendingOffersForTask(taskId);
+      // Rescore pending offers with current reputations, best first
+      const offers = await offerService.rescorePendingOffers(task);
+      const buyNowOffer = buyNowOfferId
+        ? offers.find(offer => offer.id === buyNowOfferId)
+        : undefined;
+
+      if (!buyNowOffer && offers.length < minOffers) {
+        await prisma.auction.update({
+          where: { id: auction.id },
+          data: { totalOffers: offers.length },
+        });
+
+        // Not enough offers received - re-auction, expire or reset to OPEN
+        const outcome = await this.applyReauctionPolicy(task);
+
+        logger.info('Auction completed without enough offers', {
+          taskId,
+          totalOffers: offers.length,
+          minOffers,
+          status: outcome.status,
+        });
 
-      if (offers.length === 0) {
-        // No offers received - reset to OPEN
-        await taskService.updateTaskStatus(taskId, 'OPEN');
-        
-        logger.info('Auction completed with no offers', { taskId });
-        
         this.emit('auction:no-offers', {
           taskId,
           auctionDurationMs,
+          totalOffers: offers.length,
+          minOffers,
+          ...outcome,
         });
 
-        this.activeAuctions.delete(taskId);
         return;
       }
 
-      // Pick the winner (highest score)
-      const winningOffer = offers[0];
+      // Pick the winners (buy-now offer, else the highest scores)
+      const winningOffers = buyNowOffer ? [buyNowOffer] : offers.slice(0, task.winnerCount);
+      const winningOffer = winningOffers[0];
 
-      // Accept the winning offer
-      await offerService.updateOfferStatus(winningOffer.id, 'ACCEPTED');
+      // Winners are paid what they asked; sealed-bid winners get the
+      // second-best price instead, capped by the reserve.
+      const awardedPriceLamports = !buyNowOffer && task.auctionMode === 'SEALED_SECOND_PRICE'
+        ? offerService.computeSecondPrice(
+            task,
+            winningOffer,
+            offers[1],
+            task.reservePriceLamports ?? task.budgetLamports
+          )
+        : winningOffer.priceLamports;
 
       // Reject all other offers
-      await offerService.rejectOffersExcept(taskId, winningOffer.id);
+      await offerService.rejectOffersExcept(taskId, winningOffers.map(offer => offer.id));
 
-      // Assign the Task to the winning Agent
-      await taskService.assignTask(taskId, winningOffer.agentId);
+      // Accept the winning offer(s) and assign the Task
+      if (winningOffers.length > 1) {
+        await this.awardConsensus(task, winningOffers);
+      } else {
+        await this.awardOffer(task, winningOffer, awardedPriceLamports);
+      }
 
-      // Create an Execution record
-      await prisma.execution.create({
+      await prisma.auction.update({
+        where: { id: auction.id },
         data: {
-          taskId,
-          agentId: winningOffer.agentId,
-          status: 'PENDING',
+          winningOfferId: winningOffer.id,
+          totalOffers: offers.length,
         },
       });
 
       const result: AuctionResult = {
         taskId,
         winningOffer,
+        winningOffers,
         totalOffers: offers.length,
         auctionDurationMs,
+        buyNow: !!buyNowOffer,
       };
 
       logger.info('Auction completed', {
         taskId,
+        buyNow: !!buyNowOffer,
         winnerId: winningOffer.agentId,
+        winnerIds: winningOffers.map(offer => offer.agentId),
         winningScore: winningOffer.score,
+        awardedPriceLamports: awardedPriceLamports.toString(),
         totalOffers: offers.length,
       });
 
@@ -179,11 +648,325 @@ export class AuctionEngine extends EventEmitter {
     } catch (error) {
       logger.error(`Error closing auction for Task ${taskId}`, error as Error);
       // Try to reset Task status
-      await taskService.updateTaskStatus(taskId, 'OPEN');
-    } finally {
-      // Clean up
-      this.activeAuctions.delete(taskId);
+      const task = await taskService.getTaskById(taskId);
+      if (task.status === 'IN_AUCTION') {
+        await taskService.updateTaskStatus(taskId, 'OPEN');
+      }
+    }
+  }
+
+  /**
+   * Deadline for a freshly awarded Agent to start executing
+   */
+  private getStartDeadline(task: Task): Date {
+    const timeoutMs = task.startTimeoutSeconds != null
+      ? task.startTimeoutSeconds * 1000
+      : config.execution.startTimeoutMs;
+
+    return new Date(Date.now() + timeoutMs);
+  }
+
+  /**
+   * Accept an offer, assign the Task to its Agent and arm the start timeout
+   */
+  private async awardOffer(
+    task: Task,
+    offer: Offer,
+    awardedPriceLamports: bigint
+  ): Promise<void> {
+    const startDeadlineAt = this.getStartDeadline(task);
+
+    await offerService.updateOfferStatus(offer.id, 'ACCEPTED');
+
+    await taskService.assignTask(task.id, offer.agentId, awardedPriceLamports, startDeadlineAt);
+
+    // Create an Execution record
+    await prisma.execution.create({
+      data: {
+        taskId: task.id,
+        agentId: offer.agentId,
+        status: 'PENDING',
+      },
+    });
+
+    this.armStartTimeout(task.id, offer.agentId, startDeadlineAt);
+  }
+
+  /**
+   * Accept the top offers of a consensus Task, one Execution per Agent
+   */
+  private async awardConsensus(task: Task, offers: Offer[]): Promise<void> {
+    const startDeadlineAt = this.getStartDeadline(task);
+
+    for (const offer of offers) {
+      await offerService.updateOfferStatus(offer.id, 'ACCEPTED');
+    }
+
+    await taskService.assignTaskToAgents(
+      task.id,
+      offers.map(offer => offer.agentId),
+      startDeadlineAt
+    );
+
+    for (const offer of offers) {
+      await prisma.execution.create({
+        data: {
+          taskId: task.id,
+          agentId: offer.agentId,
+          status: 'PENDING',
+        },
+      });
+
+      this.armStartTimeout(task.id, offer.agentId, startDeadlineAt);
+    }
+  }
+
+  /**
+   * Arm the timer that takes a Task back if its Agent never starts
+   */
+  private armStartTimeout(taskId: string, agentId: string, startDeadlineAt: Date): void {
+    const key = `${taskId}:${agentId}`;
+    const existing = this.startTimeouts.get(key);
+    if (existing) {
+      clearTimeout(existing);
     }
+
+    const delayMs = Math.max(0, startDeadlineAt.getTime() - Date.now());
+    const timer = setTimeout(() => {
+      this.startTimeouts.delete(key);
+      this.handleStartTimeout(taskId, agentId).catch((error) => {
+        logger.error(`Error handling start timeout for Task ${taskId}`, error as Error);
+      });
+    }, delayMs);
+
+    this.startTimeouts.set(key, timer);
+  }
+
+  /**
+   * An assigned Agent didn't start in time
+   *
+   * The Agent's Execution is marked ABANDONED and its reputation penalized.
+   * Its place then goes to the best remaining REJECTED offer that is still
+   * valid. Without one, a single-winner Task goes back to auction; a
+   * consensus Task carries on with the Agents it has left (and goes back to
+   * auction only if none of them is still working).
+   */
+  private async handleStartTimeout(taskId: string, agentId: string): Promise<void> {
+    const task = await taskService.getTaskById(taskId);
+    const consensus = task.winnerCount > 1;
+
+    // Started, cancelled or reassigned in the meantime
+    const stillAssigned = consensus
+      ? ['ASSIGNED', 'RUNNING'].includes(task.status) && task.assignedAgentIds.includes(agentId)
+      : task.status === 'ASSIGNED' && task.assignedAgentId === agentId;
+
+    if (!stillAssigned) {
+      return;
+    }
+
+    // Claim the Execution so a start racing the timeout wins or loses cleanly
+    const abandoned = await prisma.execution.updateMany({
+      where: { taskId, agentId, status: 'PENDING' },
+      data: { status: 'ABANDONED', completedAt: new Date() },
+    });
+
+    if (abandoned.count === 0) {
+      return;
+    }
+
+    const timeoutSeconds = task.startTimeoutSeconds ?? config.execution.startTimeoutMs / 1000;
+
+    await reputationService.applyEvent(
+      agentId,
+      taskId,
+      -config.execution.abandonPenalty,
+      `Abandoned Task: execution not started within ${timeoutSeconds}s`
+    );
+    await agentService.recomputeStats(agentId);
+
+    logger.warn('Assigned Agent did not start in time', {
+      taskId,
+      agentId,
+      startDeadlineAt: task.startDeadlineAt,
+    });
+
+    // Agents that already had their turn on this Task are out
+    const previousExecutions = await prisma.execution.findMany({
+      where: { taskId },
+      select: { agentId: true, status: true },
+    });
+    const runnerUp = await offerService.findRunnerUpOffer(
+      task,
+      previousExecutions.map(execution => execution.agentId)
+    );
+
+    if (runnerUp) {
+      if (consensus) {
+        await this.replaceConsensusAgent(task, agentId, runnerUp);
+      } else {
+        // Runner-ups are paid what they asked, there is no second price to fall back on
+        await this.awardOffer(task, runnerUp, runnerUp.priceLamports);
+      }
+
+      logger.info('Task reassigned to runner-up', {
+        taskId,
+        previousAgentId: agentId,
+        agentId: runnerUp.agentId,
+        offerId: runnerUp.id,
+      });
+
+      this.emit('auction:abandoned', {
+        taskId,
+        previousAgentId: agentId,
+        status: consensus ? task.status : 'ASSIGNED',
+        winningOffer: runnerUp,
+      });
+      return;
+    }
+
+    const othersWorking = previousExecutions.some(
+      execution => execution.status === 'PENDING' || execution.status === 'RUNNING'
+    );
+
+    if (consensus && (task.status === 'RUNNING' || othersWorking)) {
+      // Carry on one Agent short; settle if this was the last one outstanding
+      this.emit('auction:abandoned', {
+        taskId,
+        previousAgentId: agentId,
+        status: task.status,
+        winningOffer: null,
+      });
+
+      await consensusService.resolveIfFinished(taskId);
+      return;
+    }
+
+    // No valid runner-up: back to auction
+    const released = await taskService.releaseTask(taskId);
+
+    this.emit('auction:abandoned', {
+      taskId,
+      previousAgentId: agentId,
+      status: 'OPEN',
+      winningOffer: null,
+    });
+
+    await this.startAuction(released);
+  }
+
+  /**
+   * Hand an abandoned consensus slot to a runner-up
+   */
+  private async replaceConsensusAgent(task: Task, fromAgentId: string, offer: Offer): Promise<void> {
+    await offerService.updateOfferStatus(offer.id, 'ACCEPTED');
+
+    await taskService.replaceAssignedAgent(task.id, fromAgentId, offer.agentId);
+
+    await prisma.execution.create({
+      data: {
+        taskId: task.id,
+        agentId: offer.agentId,
+        status: 'PENDING',
+      },
+    });
+
+    this.armStartTimeout(task.id, offer.agentId, this.getStartDeadline(task));
+  }
+
+  /**
+   * Decide what happens to a Task whose auction ended without a winner
+   *
+   * Without a policy (maxReauctions unset) the Task goes back to OPEN.
+   * Otherwise a new auction is scheduled after an exponential backoff, with
+   * the budget raised by budgetStepLamports up to maxBudgetLamports, until
+   * maxReauctions is used up or the next round would start past the deadline.
+   * Then the Task expires.
+   */
+  private async applyReauctionPolicy(task: Task): Promise<ReauctionOutcome> {
+    if (task.maxReauctions === null) {
+      // Pending offers carry over to whatever auction comes next
+      await taskService.updateTaskStatus(task.id, 'OPEN');
+      return { status: 'OPEN', reauctionAt: null };
+    }
+
+    if (task.reauctionCount >= task.maxReauctions) {
+      return this.expireTask(task, `No winner after ${task.reauctionCount} re-auctions`);
+    }
+
+    const baseBackoffMs = task.backoffSeconds != null
+      ? task.backoffSeconds * 1000
+      : config.auction.reauctionBackoffMs;
+    const backoffMs = Math.min(
+      baseBackoffMs * 2 ** task.reauctionCount,
+      config.auction.maxReauctionBackoffMs
+    );
+    const reauctionAt = new Date(Date.now() + backoffMs);
+
+    if (task.deadline && reauctionAt >= task.deadline) {
+      return this.expireTask(task, 'Next re-auction would start after the deadline');
+    }
+
+    let budgetLamports = task.budgetLamports;
+    if (task.budgetStepLamports !== null && task.maxBudgetLamports !== null) {
+      budgetLamports += task.budgetStepLamports;
+      if (budgetLamports > task.maxBudgetLamports) {
+        budgetLamports = task.maxBudgetLamports;
+      }
+    }
+
+    const updated = await taskService.scheduleReauction(task.id, reauctionAt, budgetLamports);
+    await this.startAuction(updated);
+
+    return {
+      status: 'OPEN',
+      reauctionAt,
+      reauctionCount: updated.reauctionCount,
+      budgetLamports: budgetLamports.toString(),
+    };
+  }
+
+  /**
+   * Move a Task to EXPIRED and reject the offers left on it
+   */
+  private async expireTask(task: Task, reason: string): Promise<ReauctionOutcome> {
+    await taskService.updateTaskStatus(task.id, 'EXPIRED');
+    await offerService.rejectPendingOffers(task.id);
+
+    logger.info('Task expired', {
+      taskId: task.id,
+      reauctionCount: task.reauctionCount,
+      reason,
+    });
+
+    await shardService.handleShardFinished(task.id);
+    await escrowService.settleTask(task.id);
+    await workflowService.handleTaskFinished(task.id);
+
+    return { status: 'EXPIRED', reauctionAt: null, reason };
+  }
+
+  /**
+   * Expire an OPEN or IN_AUCTION Task whose deadline has passed
+   * Returns false if the Task moved on (e.g. was awarded) in the meantime.
+   */
+  async expireOverdueTask(taskId: string): Promise<boolean> {
+    if (this.isAuctionActive(taskId) || this.isAuctionScheduled(taskId)) {
+      await this.cancelAuction(taskId);
+    }
+
+    // Persisted auctions without a timer in this process
+    await prisma.auction.updateMany({
+      where: { taskId, status: { in: ['SCHEDULED', 'OPEN'] } },
+      data: { status: 'CANCELLED', closedAt: new Date() },
+    });
+
+    const task = await taskService.getTaskById(taskId);
+    if (task.status !== 'OPEN' && task.status !== 'IN_AUCTION') {
+      return false;
+    }
+
+    await this.expireTask(task, 'Deadline passed');
+    return true;
   }
 
   /**
@@ -193,6 +976,13 @@ export class AuctionEngine extends EventEmitter {
     return this.activeAuctions.has(taskId);
   }
 
+  /**
+   * Check if an auction is scheduled to open later for a Task
+   */
+  isAuctionScheduled(taskId: string): boolean {
+    return this.scheduledStarts.has(taskId);
+  }
+
   /**
    * Get auction state for a Task
    */
@@ -211,8 +1001,25 @@ export class AuctionEngine extends EventEmitter {
    * Cancel an auction (admin/emergency use)
    */
   async cancelAuction(taskId: string): Promise<void> {
+    const startTimer = this.scheduledStarts.get(taskId);
+
+    if (startTimer) {
+      clearTimeout(startTimer);
+      this.scheduledStarts.delete(taskId);
+
+      await prisma.auction.updateMany({
+        where: { taskId, status: 'SCHEDULED' },
+        data: { status: 'CANCELLED', closedAt: new Date() },
+      });
+
+      logger.info('Scheduled auction cancelled', { taskId });
+
+      this.emit('auction:cancelled', { taskId });
+      return;
+    }
+
     const auction = this.activeAuctions.get(taskId);
-    
+
     if (!auction) {
       logger.warn(`No auction to cancel for Task ${taskId}`);
       return;
@@ -221,8 +1028,16 @@ export class AuctionEngine extends EventEmitter {
     clearTimeout(auction.timer);
     this.activeAuctions.delete(taskId);
 
-    // Reset Task status
-    await taskService.updateTaskStatus(taskId, 'OPEN');
+    await prisma.auction.updateMany({
+      where: { id: auction.auctionId, status: 'OPEN' },
+      data: { status: 'CANCELLED', closedAt: new Date() },
+    });
+
+    // Reset Task status (unless the Task itself was cancelled)
+    const task = await taskService.getTaskById(taskId);
+    if (task.status === 'IN_AUCTION') {
+      await taskService.updateTaskStatus(taskId, 'OPEN');
+    }
 
     logger.info('Auction cancelled', { taskId });
 
@@ -236,8 +1051,7 @@ export class AuctionEngine extends EventEmitter {
     const auction = this.activeAuctions.get(taskId);
     if (!auction) return null;
 
-    const elapsed = Date.now() - auction.startedAt.getTime();
-    const remaining = config.auction.windowMs - elapsed;
+    const remaining = auction.endsAt.getTime() - Date.now();
     return Math.max(0, remaining);
   }
 }
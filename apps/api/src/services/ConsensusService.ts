@@ -0,0 +1,162 @@
+import { EventEmitter } from 'events';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { getComparator, groupResults, resolveThreshold } from '../consensus/index.js';
+import { paymentService } from './PaymentService.js';
+import { reputationService } from './ReputationService.js';
+import { agentService } from './AgentService.js';
+import { offerService } from './OfferService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+
+export interface ConsensusResult {
+  taskId: string;
+  status: 'COMPLETED' | 'FAILED';
+  threshold: number;
+  agreeingAgentIds: string[];
+  dissentingAgentIds: string[];
+}
+
+/**
+ * ConsensusService - Settles multi-winner (k-of-N) Tasks
+ *
+ * Once every Execution of a consensus Task has finished, the successful
+ * results are grouped with the Task's comparator. If the largest group
+ * reaches the threshold (and isn't tied), the Task completes: agreeing
+ * Agents are paid their own offer price and gain reputation, dissenters
+ * lose reputation. Otherwise the Task fails and nobody is paid.
+ *
+ * Events emitted:
+ * - 'consensus:resolved' - when a consensus Task completes or fails
+ */
+export class ConsensusService extends EventEmitter {
+  /**
+   * Resolve a consensus Task if all its Executions have finished
+   * Returns null while results are still outstanding (or already resolved).
+   */
+  async resolveIfFinished(taskId: string): Promise<ConsensusResult | null> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+
+    if (!task || task.winnerCount <= 1 || task.status !== 'RUNNING') {
+      return null;
+    }
+
+    const executions = await prisma.execution.findMany({
+      where: { taskId },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    if (executions.some(e => e.status === 'PENDING' || e.status === 'RUNNING')) {
+      return null;
+    }
+
+    const results = executions.filter(e => e.status === 'SUCCESS' && e.signedResultPayload !== null);
+    const comparator = getComparator(task.consensusComparator);
+    const threshold = resolveThreshold(task.winnerCount, task.consensusThreshold);
+
+    const groups = groupResults(
+      results,
+      execution => execution.signedResultPayload!,
+      comparator,
+      { tolerance: task.consensusTolerance ?? 0 }
+    );
+
+    // A tie between the largest groups is not an answer
+    const [largest, runnerUp] = groups;
+    const reached = !!largest &&
+      largest.length >= threshold &&
+      (!runnerUp || runnerUp.length < largest.length);
+
+    const agreeing = reached ? largest : [];
+    const dissenting = reached ? results.filter(e => !agreeing.includes(e)) : [];
+    const status = reached ? 'COMPLETED' : 'FAILED';
+
+    // Claim the Task so concurrent completions resolve it once
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'RUNNING' },
+      data: { status },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    if (reached) {
+      await prisma.execution.updateMany({
+        where: { id: { in: agreeing.map(e => e.id) } },
+        data: { inConsensus: true },
+      });
+      await prisma.execution.updateMany({
+        where: { id: { in: dissenting.map(e => e.id) } },
+        data: { inConsensus: false },
+      });
+    }
+
+    for (const execution of agreeing) {
+      const acceptedOffer = await prisma.offer.findFirst({
+        where: { taskId, agentId: execution.agentId, status: 'ACCEPTED' },
+      });
+
+      const priceLamports = acceptedOffer?.priceLamports ?? offerService.getBudgetPerWinner(task);
+
+      // A free offer has nothing to pay
+      if (priceLamports > 0n) {
+        await paymentService.createPendingPayment(
+          taskId,
+          execution.agentId,
+          priceLamports,
+          task.paymentTokenSymbol,
+          task.fundedByAgentId
+        );
+      }
+
+      await reputationService.applyEvent(
+        execution.agentId,
+        taskId,
+        0.1,
+        `Result agreed with consensus (${agreeing.length} of ${task.winnerCount})`
+      );
+    }
+
+    for (const execution of dissenting) {
+      await reputationService.applyEvent(
+        execution.agentId,
+        taskId,
+        -0.2,
+        `Result disagreed with consensus (${agreeing.length} of ${task.winnerCount} agreed)`
+      );
+    }
+
+    for (const agentId of new Set(executions.map(e => e.agentId))) {
+      await agentService.recomputeStats(agentId);
+    }
+
+    const result: ConsensusResult = {
+      taskId,
+      status,
+      threshold,
+      agreeingAgentIds: agreeing.map(e => e.agentId),
+      dissentingAgentIds: dissenting.map(e => e.agentId),
+    };
+
+    logger.info('Consensus resolved', {
+      ...result,
+      results: results.length,
+      groups: groups.map(group => group.length),
+    });
+
+    this.emit('consensus:resolved', result);
+
+    await shardService.handleShardFinished(taskId);
+    await escrowService.settleTask(taskId);
+    await workflowService.handleTaskFinished(taskId);
+
+    return result;
+  }
+}
+
+export const consensusService = new ConsensusService();
+export default consensusService;
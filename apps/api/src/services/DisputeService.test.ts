@@ -0,0 +1,156 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Dispute, DisputeEvidence, Payment, Task } from '@prisma/client';
+
+const { prismaMock, paymentServiceMock, getNetShare } = vi.hoisted(() => ({
+  prismaMock: {
+    dispute: {
+      findUnique: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    task: {
+      updateMany: vi.fn(),
+    },
+    payment: {
+      findFirst: vi.fn(),
+      findMany: vi.fn(),
+    },
+    arbiter: {
+      updateMany: vi.fn(),
+    },
+  },
+  paymentServiceMock: {
+    createPendingPayment: vi.fn(),
+    refundPayment: vi.fn(),
+  },
+  getNetShare: vi.fn(),
+}));
+
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock }));
+vi.mock('../utils/logger.js', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../auth/index.js', () => ({ isPlatformAdmin: () => false }));
+vi.mock('./PaymentService.js', () => ({ paymentService: paymentServiceMock }));
+vi.mock('./ReputationService.js', () => ({
+  reputationService: { applyEvent: vi.fn(), applyUserEvent: vi.fn() },
+}));
+vi.mock('./AgentService.js', () => ({ agentService: { recomputeStats: vi.fn() } }));
+vi.mock('./TaskService.js', () => ({
+  taskService: { getTaskById: vi.fn(async (id: string) => ({ ...TASK, id })) },
+}));
+vi.mock('./ShardService.js', () => ({ shardService: { handleShardFinished: vi.fn() } }));
+vi.mock('./WorkflowService.js', () => ({ workflowService: { handleTaskFinished: vi.fn() } }));
+vi.mock('./EscrowService.js', () => ({ escrowService: { settleTask: vi.fn() } }));
+vi.mock('./SubcontractService.js', () => ({ subcontractService: { getNetShare } }));
+
+import { DisputeService } from './DisputeService.js';
+
+const TASK = {
+  id: 'task-1',
+  createdByUserId: 'creator-1',
+  paymentTokenSymbol: 'SOL',
+  fundedByAgentId: null,
+} as Task;
+
+const DISPUTE = {
+  id: 'dispute-1',
+  taskId: 'task-1',
+  agentId: 'agent-1',
+  arbiterUserId: 'arbiter-1',
+  status: 'OPEN',
+  evidenceDeadlineAt: new Date(0),
+  evidence: [] as DisputeEvidence[],
+} as Dispute & { evidence: DisputeEvidence[] };
+
+function payment(id: string, status: Payment['status'], amountLamports: bigint, refundedLamports = 0n): Payment {
+  return { id, status, amountLamports, refundedLamports } as Payment;
+}
+
+describe('DisputeService verdict payments', () => {
+  let disputeService: DisputeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    prismaMock.dispute.findUnique.mockResolvedValue(DISPUTE);
+    prismaMock.dispute.updateMany.mockResolvedValue({ count: 1 });
+    prismaMock.payment.findFirst.mockResolvedValue(null);
+    prismaMock.payment.findMany.mockResolvedValue([]);
+    getNetShare.mockResolvedValue(1000n);
+
+    disputeService = new DisputeService();
+  });
+
+  it('pays the Agent its net share on FULL_PAY', async () => {
+    await disputeService.resolveDispute('dispute-1', 'arbiter-1', {
+      verdict: 'FULL_PAY',
+      rationale: 'The result matches the spec',
+    });
+
+    expect(getNetShare).toHaveBeenCalledWith(expect.objectContaining({ id: 'task-1' }), 'agent-1');
+    expect(paymentServiceMock.createPendingPayment).toHaveBeenCalledWith(
+      'task-1', 'agent-1', 1000n, 'SOL', null
+    );
+    expect(prismaMock.task.updateMany).toHaveBeenCalledWith({
+      where: { id: 'task-1', status: 'DISPUTED' },
+      data: { status: 'COMPLETED' },
+    });
+  });
+
+  it('pays agentShareBps of the net share on PARTIAL_PAY, less what was paid', async () => {
+    prismaMock.payment.findMany.mockResolvedValue([payment('pay-1', 'COMPLETED', 300n, 100n)]);
+
+    await disputeService.resolveDispute('dispute-1', 'arbiter-1', {
+      verdict: 'PARTIAL_PAY',
+      agentShareBps: 6000,
+      rationale: 'Half of it was usable',
+    });
+
+    // 60% of 1000, less the 200 the Agent kept of its earlier payment
+    expect(paymentServiceMock.createPendingPayment).toHaveBeenCalledWith(
+      'task-1', 'agent-1', 400n, 'SOL', null
+    );
+  });
+
+  it('creates no payment when the Agent was already paid what it is owed', async () => {
+    prismaMock.payment.findMany.mockResolvedValue([payment('pay-1', 'COMPLETED', 1000n)]);
+
+    await disputeService.resolveDispute('dispute-1', 'arbiter-1', {
+      verdict: 'FULL_PAY',
+      rationale: 'The result matches the spec',
+    });
+
+    expect(paymentServiceMock.createPendingPayment).not.toHaveBeenCalled();
+  });
+
+  it('refunds the Agent\'s pending and completed payments on REFUND', async () => {
+    prismaMock.payment.findMany.mockResolvedValue([
+      payment('pay-1', 'PENDING', 500n),
+      payment('pay-2', 'COMPLETED', 500n),
+    ]);
+
+    await disputeService.resolveDispute('dispute-1', 'arbiter-1', {
+      verdict: 'REFUND',
+      rationale: 'The result is unusable',
+    });
+
+    expect(paymentServiceMock.refundPayment.mock.calls.map(([id]) => id)).toEqual(['pay-1', 'pay-2']);
+    expect(paymentServiceMock.createPendingPayment).not.toHaveBeenCalled();
+    expect(prismaMock.task.updateMany).toHaveBeenCalledWith({
+      where: { id: 'task-1', status: 'DISPUTED' },
+      data: { status: 'FAILED' },
+    });
+  });
+
+  it('refuses a REFUND while a payment is being paid out, before claiming the dispute', async () => {
+    prismaMock.payment.findFirst.mockResolvedValue(payment('pay-1', 'SUBMITTED', 1000n));
+
+    await expect(disputeService.resolveDispute('dispute-1', 'arbiter-1', {
+      verdict: 'REFUND',
+      rationale: 'The result is unusable',
+    })).rejects.toThrow('is being paid out');
+
+    expect(prismaMock.dispute.updateMany).not.toHaveBeenCalled();
+    expect(paymentServiceMock.refundPayment).not.toHaveBeenCalled();
+  });
+});
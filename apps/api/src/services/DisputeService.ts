@@ -0,0 +1,527 @@
+import { EventEmitter } from 'events';
+import {
+  Prisma,
+  Arbiter,
+  Dispute,
+  DisputeEvidence,
+  DisputeParty,
+  DisputeStatus,
+  DisputeVerdict,
+  Execution,
+  Task,
+} from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors.js';
+import { config } from '../config/index.js';
+import { isPlatformAdmin } from '../auth/index.js';
+import { paymentService } from './PaymentService.js';
+import { reputationService } from './ReputationService.js';
+import { agentService } from './AgentService.js';
+import { taskService } from './TaskService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+import { subcontractService } from './SubcontractService.js';
+
+export interface SubmitEvidenceInput {
+  content: string;
+  attachmentUrl?: string;
+}
+
+export interface VerdictInput {
+  verdict: DisputeVerdict;
+  agentShareBps?: number; // PARTIAL_PAY only
+  rationale: string;
+}
+
+export type DisputeWithEvidence = Dispute & { evidence: DisputeEvidence[] };
+
+// Reputation moved by each verdict
+const VERDICT_REPUTATION: Record<DisputeVerdict, { agent: number; creator: number }> = {
+  FULL_PAY: { agent: 0.1, creator: -0.2 }, // result was fine: the dispute was unfounded
+  PARTIAL_PAY: { agent: -0.1, creator: -0.05 },
+  REFUND: { agent: -0.3, creator: 0 },
+};
+
+/**
+ * DisputeService - Arbitration of disputed results
+ *
+ * A dispute is opened when the creator disputes a result under review. Its
+ * arbiter is the least recently assigned active arbiter staking at least
+ * DISPUTE_MIN_ARBITER_STAKE_LAMPORTS who isn't a party; without one, any
+ * dispute admin (DISPUTE_ADMIN_USER_IDS) or platform admin (ADMIN_USER_IDS) can take it.
+ * Both sides submit evidence until DISPUTE_EVIDENCE_WINDOW_MS passes; the
+ * arbiter rules once it has or once both sides submitted. The verdict:
+ * - FULL_PAY: the Task completes and the Agent is paid its share
+ * - PARTIAL_PAY: the Task completes and the Agent is paid agentShareBps of it
+ * - REFUND: the Task fails and the Agent's payments on it are refunded
+ * and applies reputation to the Agent and the creator (VERDICT_REPUTATION).
+ *
+ * Events emitted:
+ * - 'disputes:opened' - when a dispute was opened (with its arbiter)
+ * - 'disputes:evidence' - when a side submitted evidence
+ * - 'disputes:resolved' - when a verdict was applied
+ */
+export class DisputeService extends EventEmitter {
+  /**
+   * Open a dispute for a Task that just moved to DISPUTED
+   */
+  async openDispute(
+    task: Task,
+    execution: Execution,
+    userId: string,
+    reason: string
+  ): Promise<Dispute> {
+    const agent = await agentService.getAgentById(execution.agentId);
+    const arbiter = await this.pickArbiter([userId, agent.ownerUserId]);
+
+    const dispute = await prisma.dispute.create({
+      data: {
+        taskId: task.id,
+        executionId: execution.id,
+        agentId: execution.agentId,
+        openedByUserId: userId,
+        reason,
+        arbiterUserId: arbiter?.userId,
+        evidenceDeadlineAt: new Date(Date.now() + config.disputes.evidenceWindowMs),
+        evidence: {
+          create: {
+            party: 'CREATOR',
+            submittedByUserId: userId,
+            content: reason,
+          },
+        },
+      },
+    });
+
+    logger.info('Dispute opened', {
+      disputeId: dispute.id,
+      taskId: task.id,
+      agentId: execution.agentId,
+      arbiterUserId: dispute.arbiterUserId,
+    });
+
+    this.emit('disputes:opened', {
+      disputeId: dispute.id,
+      taskId: task.id,
+      agentId: execution.agentId,
+      arbiterUserId: dispute.arbiterUserId,
+      evidenceDeadlineAt: dispute.evidenceDeadlineAt,
+    });
+
+    return dispute;
+  }
+
+  /**
+   * Get a dispute with its evidence (parties, its arbiter and admins only)
+   */
+  async getDispute(disputeId: string, userId: string): Promise<DisputeWithEvidence> {
+    const dispute = await this.getDisputeById(disputeId);
+    await this.assertCanView(dispute, userId);
+    return dispute;
+  }
+
+  /**
+   * Get the dispute of a Task
+   */
+  async getDisputeForTask(taskId: string, userId: string): Promise<DisputeWithEvidence> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { taskId },
+      include: { evidence: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute');
+    }
+
+    await this.assertCanView(dispute, userId);
+    return dispute;
+  }
+
+  /**
+   * List the disputes a user is involved in (as creator, Agent owner or arbiter)
+   * Admins also see disputes without an arbiter.
+   */
+  async listDisputes(userId: string, status?: DisputeStatus): Promise<Dispute[]> {
+    const involved: Prisma.DisputeWhereInput[] = [
+      { openedByUserId: userId },
+      { arbiterUserId: userId },
+      { task: { assignedAgent: { ownerUserId: userId } } },
+    ];
+
+    if (this.isAdmin(userId)) {
+      involved.push({ arbiterUserId: null });
+    }
+
+    return prisma.dispute.findMany({
+      where: { OR: involved, status },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Submit evidence for one side of an open dispute
+   */
+  async submitEvidence(
+    disputeId: string,
+    userId: string,
+    input: SubmitEvidenceInput
+  ): Promise<DisputeEvidence> {
+    const dispute = await this.getDisputeById(disputeId);
+
+    if (dispute.status !== 'OPEN') {
+      throw new ConflictError('Dispute is already resolved');
+    }
+
+    if (dispute.evidenceDeadlineAt <= new Date()) {
+      throw new ConflictError('The evidence window for this dispute has closed');
+    }
+
+    const party = await this.getParty(dispute, userId);
+    if (!party) {
+      throw new ForbiddenError('Only the creator and the Agent owner can submit evidence');
+    }
+
+    const evidence = await prisma.disputeEvidence.create({
+      data: {
+        disputeId,
+        party,
+        submittedByUserId: userId,
+        content: input.content,
+        attachmentUrl: input.attachmentUrl,
+      },
+    });
+
+    logger.info('Dispute evidence submitted', {
+      disputeId,
+      taskId: dispute.taskId,
+      party,
+    });
+
+    this.emit('disputes:evidence', {
+      disputeId,
+      taskId: dispute.taskId,
+      agentId: dispute.agentId,
+      party,
+      evidenceId: evidence.id,
+    });
+
+    return evidence;
+  }
+
+  /**
+   * Rule on a dispute and apply the verdict (its arbiter, or an admin)
+   */
+  async resolveDispute(
+    disputeId: string,
+    userId: string,
+    input: VerdictInput
+  ): Promise<Dispute> {
+    const dispute = await this.getDisputeById(disputeId);
+
+    if (!this.canArbitrate(dispute, userId)) {
+      throw new ForbiddenError('Only the assigned arbiter or an admin can rule on this dispute');
+    }
+
+    if (dispute.status !== 'OPEN') {
+      throw new ConflictError('Dispute is already resolved');
+    }
+
+    // Both sides get heard before a ruling
+    const parties = new Set(dispute.evidence.map(evidence => evidence.party));
+    if (parties.size < 2 && dispute.evidenceDeadlineAt > new Date()) {
+      throw new ConflictError(
+        `Waiting for evidence from both sides until ${dispute.evidenceDeadlineAt.toISOString()}`
+      );
+    }
+
+    if (input.verdict === 'PARTIAL_PAY') {
+      if (input.agentShareBps === undefined || input.agentShareBps <= 0 || input.agentShareBps >= 10000) {
+        throw new ValidationError('A partial payment needs agentShareBps between 1 and 9999');
+      }
+    } else if (input.agentShareBps !== undefined) {
+      throw new ValidationError('agentShareBps only applies to PARTIAL_PAY verdicts');
+    }
+
+    if (input.verdict === 'REFUND') {
+      await this.assertRefundable(dispute);
+    }
+
+    // Claim the dispute so concurrent rulings apply once
+    const claimed = await prisma.dispute.updateMany({
+      where: { id: disputeId, status: 'OPEN' },
+      data: {
+        status: 'RESOLVED',
+        verdict: input.verdict,
+        agentShareBps: input.agentShareBps,
+        rationale: input.rationale,
+        resolvedByUserId: userId,
+        resolvedAt: new Date(),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Dispute is already resolved');
+    }
+
+    const task = await taskService.getTaskById(dispute.taskId);
+    const status = input.verdict === 'REFUND' ? 'FAILED' : 'COMPLETED';
+
+    await prisma.task.updateMany({
+      where: { id: task.id, status: 'DISPUTED' },
+      data: { status },
+    });
+
+    await this.applyPayments(dispute, task, input);
+    await this.applyReputation(dispute, task, input.verdict);
+
+    await prisma.arbiter.updateMany({
+      where: { userId },
+      data: { disputesResolved: { increment: 1 } },
+    });
+
+    logger.info('Dispute resolved', {
+      disputeId,
+      taskId: task.id,
+      agentId: dispute.agentId,
+      verdict: input.verdict,
+      agentShareBps: input.agentShareBps,
+      resolvedByUserId: userId,
+    });
+
+    this.emit('disputes:resolved', {
+      disputeId,
+      taskId: task.id,
+      agentId: dispute.agentId,
+      verdict: input.verdict,
+      agentShareBps: input.agentShareBps ?? null,
+      status,
+    });
+
+    // Move a map-reduce parent and dependent Tasks on, and settle the escrow
+    await shardService.handleShardFinished(task.id);
+    await escrowService.settleTask(task.id);
+    await workflowService.handleTaskFinished(task.id);
+
+    return this.getDisputeById(disputeId);
+  }
+
+  /**
+   * Add a user to the arbiter pool, or change their stake
+   */
+  async registerArbiter(userId: string, stakeLamports: bigint): Promise<Arbiter> {
+    if (stakeLamports < config.disputes.minArbiterStakeLamports) {
+      throw new ValidationError(
+        `Arbiter stake must be at least ${config.disputes.minArbiterStakeLamports} lamports`
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+    });
+
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    const arbiter = await prisma.arbiter.upsert({
+      where: { userId },
+      create: { userId, stakeLamports },
+      update: { stakeLamports, isActive: true },
+    });
+
+    logger.info('Arbiter registered', {
+      userId,
+      stakeLamports: stakeLamports.toString(),
+    });
+
+    return arbiter;
+  }
+
+  /**
+   * Leave the arbiter pool (disputes already assigned stay assigned)
+   */
+  async deactivateArbiter(userId: string): Promise<Arbiter> {
+    const arbiter = await prisma.arbiter.findUnique({
+      where: { userId },
+    });
+
+    if (!arbiter) {
+      throw new NotFoundError('Arbiter', userId);
+    }
+
+    return prisma.arbiter.update({
+      where: { userId },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Check if a user can arbitrate any dispute (dispute or platform admin)
+   */
+  isAdmin(userId: string): boolean {
+    return config.disputes.adminUserIds.includes(userId) || isPlatformAdmin(userId);
+  }
+
+  /**
+   * Make sure a REFUND verdict can refund every payment of the Agent on the Task
+   * Payments on their way to the Agent can't be: rule once they are settled.
+   */
+  private async assertRefundable(dispute: Dispute): Promise<void> {
+    const inFlight = await prisma.payment.findFirst({
+      where: {
+        taskId: dispute.taskId,
+        agentId: dispute.agentId,
+        OR: [
+          { status: { in: ['SUBMITTED', 'CONFIRMED'] } },
+          { status: 'PENDING', payoutBatchId: { not: null } },
+        ],
+      },
+    });
+
+    if (inFlight) {
+      throw new ConflictError(
+        `Payment ${inFlight.id} is being paid out: rule on the dispute once it is settled`
+      );
+    }
+  }
+
+  /**
+   * Pay or refund the Agent according to the verdict
+   * Payments it already received on the Task count towards what it's owed.
+   */
+  private async applyPayments(dispute: Dispute, task: Task, input: VerdictInput): Promise<void> {
+    const payments = await prisma.payment.findMany({
+      where: { taskId: task.id, agentId: dispute.agentId, status: { in: ['PENDING', 'SUBMITTED', 'CONFIRMED', 'COMPLETED'] } },
+    });
+
+    if (input.verdict === 'REFUND') {
+      // Checked by assertRefundable: none of them is being paid out
+      const refundable = payments.filter(
+        payment => payment.status === 'PENDING' || payment.status === 'COMPLETED'
+      );
+      for (const payment of refundable) {
+        await paymentService.refundPayment(payment.id, `Dispute ${dispute.id} refunded`);
+      }
+      return;
+    }
+
+    const netShare = await subcontractService.getNetShare(task, dispute.agentId);
+    const owed = input.verdict === 'FULL_PAY'
+      ? netShare
+      : (netShare * BigInt(input.agentShareBps!)) / 10000n;
+    const paid = payments.reduce(
+      (sum, payment) => sum + payment.amountLamports - payment.refundedLamports,
+      0n
+    );
+
+    if (owed > paid) {
+      await paymentService.createPendingPayment(
+        task.id,
+        dispute.agentId,
+        owed - paid,
+        task.paymentTokenSymbol,
+        task.fundedByAgentId
+      );
+    }
+  }
+
+  /**
+   * Apply the verdict's reputation to the Agent and the creator
+   */
+  private async applyReputation(dispute: Dispute, task: Task, verdict: DisputeVerdict): Promise<void> {
+    const deltas = VERDICT_REPUTATION[verdict];
+    const reason = `Dispute verdict: ${verdict}`;
+
+    if (deltas.agent !== 0) {
+      await reputationService.applyEvent(dispute.agentId, task.id, deltas.agent, reason);
+    }
+    if (deltas.creator !== 0) {
+      await reputationService.applyUserEvent(task.createdByUserId, task.id, deltas.creator, reason);
+    }
+
+    await agentService.recomputeStats(dispute.agentId);
+  }
+
+  /**
+   * Least recently assigned active, staked arbiter who isn't a party
+   * Returns null when the pool is empty (admins arbitrate instead).
+   */
+  private async pickArbiter(excludedUserIds: string[]): Promise<Arbiter | null> {
+    const arbiter = await prisma.arbiter.findFirst({
+      where: {
+        isActive: true,
+        stakeLamports: { gte: config.disputes.minArbiterStakeLamports },
+        userId: { notIn: excludedUserIds },
+      },
+      orderBy: [
+        { lastAssignedAt: { sort: 'asc', nulls: 'first' } },
+        { createdAt: 'asc' },
+      ],
+    });
+
+    if (!arbiter) {
+      return null;
+    }
+
+    return prisma.arbiter.update({
+      where: { id: arbiter.id },
+      data: { lastAssignedAt: new Date() },
+    });
+  }
+
+  /**
+   * Which side of a dispute a user is on (null if neither)
+   */
+  private async getParty(dispute: Dispute, userId: string): Promise<DisputeParty | null> {
+    if (dispute.openedByUserId === userId) {
+      return 'CREATOR';
+    }
+
+    const agent = await agentService.getAgentById(dispute.agentId);
+    return agent.ownerUserId === userId ? 'AGENT' : null;
+  }
+
+  /**
+   * Check if a user can rule on a dispute
+   */
+  private canArbitrate(dispute: Dispute, userId: string): boolean {
+    return dispute.arbiterUserId === userId || this.isAdmin(userId);
+  }
+
+  /**
+   * Disputes are visible to the parties, the arbiter and admins
+   */
+  private async assertCanView(dispute: Dispute, userId: string): Promise<void> {
+    if (this.canArbitrate(dispute, userId) || (await this.getParty(dispute, userId))) {
+      return;
+    }
+
+    throw new ForbiddenError('You are not involved in this dispute');
+  }
+
+  /**
+   * Get dispute by ID with its evidence
+   */
+  private async getDisputeById(id: string): Promise<DisputeWithEvidence> {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id },
+      include: { evidence: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!dispute) {
+      throw new NotFoundError('Dispute', id);
+    }
+
+    return dispute;
+  }
+}
+
+export const disputeService = new DisputeService();
+export default disputeService;
@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Deposit, Prisma } from '@prisma/client';
+import type { DepositTransfer } from '../solana/index.js';
+
+const { db, prismaMock, findDeposit, ledgerTransfer } = vi.hoisted(() => {
+  const db = {
+    deposits: new Map<string, Deposit>(),
+    transfers: [] as { depositId: string; txHash: string; amountLamports: bigint }[],
+    balances: new Map<string, bigint>(),
+  };
+
+  const prismaMock = {
+    deposit: {
+      findUnique: vi.fn(),
+      findUniqueOrThrow: vi.fn(),
+      count: vi.fn(),
+      updateMany: vi.fn(),
+    },
+    depositTransfer: {
+      findMany: vi.fn(),
+      createMany: vi.fn(),
+    },
+    creatorBalance: {
+      upsert: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+
+  return { db, prismaMock, findDeposit: vi.fn(), ledgerTransfer: vi.fn() };
+});
+
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock }));
+vi.mock('../utils/logger.js', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('../solana/index.js', () => ({
+  createSolanaClient: () => ({ findDeposit }),
+  createDepositReference: vi.fn(),
+}));
+vi.mock('./LedgerService.js', () => ({
+  ledgerService: { transfer: ledgerTransfer },
+}));
+
+import { EscrowService } from './EscrowService.js';
+
+const TREASURY = 'treasury';
+
+function addDeposit(id: string, amountLamports: bigint): Deposit {
+  const deposit: Deposit = {
+    id,
+    userId: 'user-1',
+    taskId: null,
+    tokenSymbol: 'SOL',
+    amountLamports,
+    receivedLamports: 0n,
+    depositAddress: TREASURY,
+    reference: `ref-${id}`,
+    txHashes: [],
+    status: 'PENDING',
+    creditedAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+  db.deposits.set(id, deposit);
+  return deposit;
+}
+
+function transfer(txHash: string, receivedLamports: bigint, ...references: string[]): DepositTransfer {
+  return { txHash, receivedLamports, accountKeys: [TREASURY, ...references] };
+}
+
+describe('EscrowService deposit crediting', () => {
+  let escrowService: EscrowService;
+
+  beforeEach(() => {
+    db.deposits.clear();
+    db.transfers = [];
+    db.balances.clear();
+    vi.clearAllMocks();
+
+    prismaMock.deposit.findUnique.mockImplementation(async ({ where }) => {
+      const deposit = db.deposits.get(where.id);
+      return deposit ? { ...deposit } : null;
+    });
+    prismaMock.deposit.findUniqueOrThrow.mockImplementation(async ({ where }) => ({ ...db.deposits.get(where.id)! }));
+    prismaMock.deposit.count.mockImplementation(async ({ where }) =>
+      [...db.deposits.values()].filter(d => where.reference.in.includes(d.reference)).length
+    );
+    prismaMock.deposit.updateMany.mockImplementation(async ({ where, data }) => {
+      const deposit = db.deposits.get(where.id);
+      if (!deposit || deposit.status !== where.status || deposit.receivedLamports !== where.receivedLamports) {
+        return { count: 0 };
+      }
+      Object.assign(deposit, data);
+      return { count: 1 };
+    });
+
+    prismaMock.depositTransfer.findMany.mockImplementation(async ({ where }) =>
+      db.transfers.filter(t => where.txHash.in.includes(t.txHash)).map(t => ({ txHash: t.txHash }))
+    );
+    prismaMock.depositTransfer.createMany.mockImplementation(async ({ data }) => {
+      for (const row of data) {
+        if (db.transfers.some(t => t.txHash === row.txHash)) {
+          throw new Prisma.PrismaClientKnownRequestError('Unique constraint failed on txHash', {
+            code: 'P2002',
+            clientVersion: 'test',
+          });
+        }
+        db.transfers.push(row);
+      }
+      return { count: data.length };
+    });
+
+    prismaMock.creatorBalance.upsert.mockImplementation(async ({ where, create }) => {
+      const key = where.userId_tokenSymbol.userId;
+      db.balances.set(key, (db.balances.get(key) ?? 0n) + create.availableLamports);
+    });
+
+    // Roll the store back when the transaction throws, like the database would
+    prismaMock.$transaction.mockImplementation(async (fn) => {
+      const snapshot = structuredClone(db);
+      try {
+        return await fn(prismaMock);
+      } catch (error) {
+        Object.assign(db, snapshot);
+        throw error;
+      }
+    });
+
+    escrowService = new EscrowService();
+  });
+
+  it('credits each transfer once across checks', async () => {
+    addDeposit('dep-1', 1000n);
+
+    findDeposit.mockResolvedValueOnce([transfer('tx-1', 400n, 'ref-dep-1')]);
+    const partial = await escrowService.confirmDeposit('dep-1', 'user-1');
+
+    expect(partial.status).toBe('PENDING');
+    expect(partial.receivedLamports).toBe(400n);
+
+    findDeposit.mockResolvedValueOnce([
+      transfer('tx-1', 400n, 'ref-dep-1'),
+      transfer('tx-2', 600n, 'ref-dep-1'),
+    ]);
+    const complete = await escrowService.confirmDeposit('dep-1', 'user-1');
+
+    expect(complete.status).toBe('CREDITED');
+    expect(complete.receivedLamports).toBe(1000n);
+    expect(complete.txHashes).toEqual(['tx-1', 'tx-2']);
+    expect(db.balances.get('user-1')).toBe(1000n);
+    expect(ledgerTransfer.mock.calls.map(([, entry]) => entry.amountLamports)).toEqual([400n, 600n]);
+  });
+
+  it('does not credit a transaction that names several deposit references', async () => {
+    addDeposit('dep-1', 1000n);
+    addDeposit('dep-2', 1000n);
+
+    findDeposit.mockResolvedValue([transfer('tx-1', 1000n, 'ref-dep-1', 'ref-dep-2')]);
+    const deposit = await escrowService.confirmDeposit('dep-1', 'user-1');
+
+    expect(deposit.status).toBe('PENDING');
+    expect(deposit.receivedLamports).toBe(0n);
+    expect(db.balances.get('user-1')).toBeUndefined();
+    expect(db.transfers).toEqual([]);
+  });
+
+  it('does not credit a transaction already credited to another deposit', async () => {
+    addDeposit('dep-1', 1000n);
+    addDeposit('dep-2', 1000n);
+    db.transfers.push({ depositId: 'dep-2', txHash: 'tx-1', amountLamports: 1000n });
+
+    findDeposit.mockResolvedValue([transfer('tx-1', 1000n, 'ref-dep-1')]);
+    const deposit = await escrowService.confirmDeposit('dep-1', 'user-1');
+
+    expect(deposit.status).toBe('PENDING');
+    expect(db.balances.get('user-1')).toBeUndefined();
+    expect(ledgerTransfer).not.toHaveBeenCalled();
+  });
+
+  it('backs off when another check claims the signature first', async () => {
+    addDeposit('dep-1', 1000n);
+    db.transfers.push({ depositId: 'dep-2', txHash: 'tx-1', amountLamports: 1000n });
+
+    // The concurrent claim lands between the lookup and the transaction
+    prismaMock.depositTransfer.findMany.mockResolvedValueOnce([]);
+    findDeposit.mockResolvedValue([transfer('tx-1', 1000n, 'ref-dep-1')]);
+    const deposit = await escrowService.confirmDeposit('dep-1', 'user-1');
+
+    expect(deposit.status).toBe('PENDING');
+    expect(deposit.receivedLamports).toBe(0n);
+    expect(db.balances.get('user-1')).toBeUndefined();
+  });
+});
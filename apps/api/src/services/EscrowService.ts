@@ -0,0 +1,798 @@
+import { EventEmitter } from 'events';
+import { CreatorBalance, Deposit, Escrow, Payment, Prisma, Task, TaskStatus } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors.js';
+import { isTerminal } from '../utils/state-machine.js';
+import { config } from '../config/index.js';
+import { createSolanaClient, createDepositReference } from '../solana/index.js';
+import type { DepositTransfer, SolanaClient } from '../solana/index.js';
+import { ledgerService } from './LedgerService.js';
+
+export interface FundingResult {
+  task: Task; // still AWAITING_FUNDING while a deposit is needed
+  deposit: Deposit | null; // on-chain deposit covering what the balance lacks
+}
+
+export interface TaskEscrow {
+  escrow: Escrow | null; // null until funded
+  deposits: Deposit[];
+}
+
+// Concurrent payments on one escrow retry their claim this many times
+const RELEASE_ATTEMPTS = 3;
+
+/**
+ * EscrowService - Creator funds locked for a Task until it settles
+ *
+ * Creator-funded Tasks start AWAITING_FUNDING. Funding locks the Task's
+ * budget (its escalation ceiling when it has one; every shard plus the reduce
+ * step for a sharded Task) from the creator's prepaid balance. When the
+ * balance falls short, the creator gets a Deposit: a transfer to the treasury
+ * that includes a per-deposit reference key, found and verified on-chain
+ * through SolanaClient (the simulated client reports it right away).
+ * Credited deposits go to the balance, then fund the waiting Task, which opens
+ * (or blocks on its prerequisites) and goes to auction.
+ * Payments are released from the escrow of the Task, or of the root Task its
+ * shards and subtasks belong to. Once every Task under the root finished, the
+ * unused remainder goes back to the creator's balance.
+ * Every movement is also posted to the ledger (LedgerService).
+ *
+ * Events emitted:
+ * - 'escrow:funded' - when a waiting Task was funded by a deposit (with the Tasks to launch)
+ * - 'escrow:deposit-credited' - when deposited funds were credited to a balance
+ * - 'escrow:expired' - when a Task was never funded
+ * - 'escrow:settled' - when an escrow's remainder went back to the creator
+ */
+export class EscrowService extends EventEmitter {
+  private solanaClient: SolanaClient;
+
+  constructor() {
+    super();
+    this.solanaClient = createSolanaClient();
+  }
+
+  /**
+   * How much a Task locks: the most its Agents can be owed
+   */
+  getLockAmount(task: Task): bigint {
+    const ceiling = (budgetLamports: bigint) =>
+      task.maxBudgetLamports !== null && task.maxBudgetLamports > budgetLamports
+        ? task.maxBudgetLamports
+        : budgetLamports;
+
+    if (task.kind !== 'SHARD_PARENT' || !task.shardCount) {
+      return ceiling(task.budgetLamports);
+    }
+
+    // Shards and the reduce step share the parent's settings, escalation included
+    const reduceLamports = task.reduceBudgetLamports ?? 0n;
+    const shardLamports = (task.budgetLamports - reduceLamports) / BigInt(task.shardCount);
+
+    return ceiling(shardLamports) * BigInt(task.shardCount) +
+      (task.reduceBudgetLamports !== null ? ceiling(reduceLamports) : 0n);
+  }
+
+  /**
+   * Fund a new Task from the creator's balance, or ask for a deposit
+   * The caller launches the Task when it was funded.
+   */
+  async fundTask(task: Task): Promise<FundingResult> {
+    if (task.status !== 'AWAITING_FUNDING') {
+      throw new ConflictError(`Task is ${task.status}, not AWAITING_FUNDING`);
+    }
+
+    if (await this.lockFromBalance(task)) {
+      return {
+        task: await prisma.task.findUniqueOrThrow({ where: { id: task.id } }),
+        deposit: null,
+      };
+    }
+
+    const balance = await prisma.creatorBalance.findUnique({
+      where: {
+        userId_tokenSymbol: { userId: task.createdByUserId, tokenSymbol: task.paymentTokenSymbol },
+      },
+    });
+    const shortfall = this.getLockAmount(task) - (balance?.availableLamports ?? 0n);
+
+    const deposit = await this.createDeposit(
+      task.createdByUserId,
+      task.paymentTokenSymbol,
+      shortfall,
+      task.id
+    );
+
+    return { task, deposit };
+  }
+
+  /**
+   * A creator's prepaid balances, one per token
+   */
+  async getBalances(userId: string): Promise<CreatorBalance[]> {
+    return prisma.creatorBalance.findMany({
+      where: { userId },
+      orderBy: { tokenSymbol: 'asc' },
+    });
+  }
+
+  /**
+   * Ask for an on-chain deposit to the creator's balance
+   * With a taskId, the Task is funded once the deposit is credited.
+   */
+  async createDeposit(
+    userId: string,
+    tokenSymbol: string,
+    amountLamports: bigint,
+    taskId?: string
+  ): Promise<Deposit> {
+    if (amountLamports <= 0) {
+      throw new ValidationError('Deposit amount must be greater than 0');
+    }
+
+    const deposit = await prisma.deposit.create({
+      data: {
+        userId,
+        taskId,
+        tokenSymbol,
+        amountLamports,
+        depositAddress: this.solanaClient.getDepositAddress(),
+        reference: createDepositReference(),
+      },
+    });
+
+    logger.info('Deposit requested', {
+      depositId: deposit.id,
+      userId,
+      taskId,
+      tokenSymbol,
+      amountLamports: amountLamports.toString(),
+    });
+
+    return deposit;
+  }
+
+  /**
+   * List a creator's deposits, newest first
+   */
+  async listDeposits(userId: string): Promise<Deposit[]> {
+    return prisma.deposit.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Look for a deposit on-chain now and credit what arrived
+   */
+  async confirmDeposit(depositId: string, userId: string): Promise<Deposit> {
+    const deposit = await prisma.deposit.findUnique({
+      where: { id: depositId },
+    });
+
+    if (!deposit) {
+      throw new NotFoundError('Deposit', depositId);
+    }
+
+    if (deposit.userId !== userId) {
+      throw new ForbiddenError('Only the depositor can confirm a deposit');
+    }
+
+    return this.checkDeposit(deposit);
+  }
+
+  /**
+   * Check every pending deposit still within the deposit window
+   * Returns the ids of the deposits credited in full.
+   */
+  async confirmPendingDeposits(): Promise<string[]> {
+    const pending = await prisma.deposit.findMany({
+      where: {
+        status: 'PENDING',
+        createdAt: { gt: new Date(Date.now() - config.escrow.depositWindowMs) },
+      },
+    });
+
+    const credited: string[] = [];
+    for (const deposit of pending) {
+      try {
+        if ((await this.checkDeposit(deposit)).status === 'CREDITED') {
+          credited.push(deposit.id);
+        }
+      } catch (error) {
+        logger.error(`Failed to check deposit ${deposit.id}`, error as Error);
+      }
+    }
+
+    return credited;
+  }
+
+  /**
+   * Expire Tasks that were not funded in time (deposit window or deadline)
+   * Returns the ids of the Tasks expired; the caller runs their dependents.
+   */
+  async expireUnfundedTasks(): Promise<string[]> {
+    const now = new Date();
+    const unfunded = await prisma.task.findMany({
+      where: {
+        status: 'AWAITING_FUNDING',
+        kind: { not: 'SHARD' }, // expire with their parent
+        OR: [
+          { createdAt: { lte: new Date(now.getTime() - config.escrow.depositWindowMs) } },
+          { deadline: { lte: now } },
+        ],
+      },
+    });
+
+    const expired: string[] = [];
+    for (const task of unfunded) {
+      const claimed = await prisma.task.updateMany({
+        where: { id: task.id, status: 'AWAITING_FUNDING' },
+        data: { status: 'EXPIRED' },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      await prisma.task.updateMany({
+        where: { parentTaskId: task.id, status: 'AWAITING_FUNDING' },
+        data: { status: 'EXPIRED' },
+      });
+
+      logger.info('Unfunded Task expired', {
+        taskId: task.id,
+        userId: task.createdByUserId,
+      });
+
+      this.emit('escrow:expired', {
+        taskId: task.id,
+        userId: task.createdByUserId,
+        status: 'EXPIRED',
+      });
+
+      expired.push(task.id);
+    }
+
+    return expired;
+  }
+
+  /**
+   * A Task's escrow and deposits (creator only)
+   */
+  async getTaskEscrow(taskId: string, userId: string): Promise<TaskEscrow> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      include: {
+        escrow: true,
+        deposits: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+
+    if (task.createdByUserId !== userId) {
+      throw new ForbiddenError('Only the Task creator can see its escrow');
+    }
+
+    return { escrow: task.escrow, deposits: task.deposits };
+  }
+
+  /**
+   * Release escrowed funds to the Agent of a new payment
+   * Runs in the transaction creating the payment. Tasks created before
+   * escrows existed have none and pass through.
+   */
+  async release(tx: Prisma.TransactionClient, payment: Payment): Promise<void> {
+    const { taskId, amountLamports } = payment;
+
+    for (let attempt = 0; attempt < RELEASE_ATTEMPTS; attempt++) {
+      const escrow = await this.findEscrow(taskId);
+
+      if (!escrow) {
+        return;
+      }
+
+      const availableLamports = escrow.amountLamports - escrow.releasedLamports - escrow.returnedLamports;
+      if (escrow.status !== 'LOCKED' || amountLamports > availableLamports) {
+        throw new ConflictError(
+          `Escrow of Task ${escrow.taskId} cannot cover ${amountLamports} (${availableLamports} left)`
+        );
+      }
+
+      // Claim against the amount read so concurrent payments can't overdraw it
+      const claimed = await tx.escrow.updateMany({
+        where: { id: escrow.id, status: 'LOCKED', releasedLamports: escrow.releasedLamports },
+        data: { releasedLamports: { increment: amountLamports } },
+      });
+
+      if (claimed.count > 0) {
+        await ledgerService.transfer(tx, {
+          kind: 'RELEASE',
+          tokenSymbol: escrow.tokenSymbol,
+          taskId,
+          paymentId: payment.id,
+          from: { type: 'ESCROW', ownerId: escrow.taskId },
+          to: { type: 'AGENT_PAYABLE', ownerId: payment.agentId },
+          amountLamports,
+        });
+
+        logger.info('Escrow released', {
+          escrowId: escrow.id,
+          taskId,
+          rootTaskId: escrow.taskId,
+          amountLamports: amountLamports.toString(),
+        });
+        return;
+      }
+    }
+
+    throw new ConflictError('Escrow changed while releasing funds');
+  }
+
+  /**
+   * Take back the funds of a refunded payment (or part of it), fee included
+   * They return to a locked escrow, or to the creator's balance once settled.
+   */
+  async reclaim(
+    payment: Payment,
+    amountLamports = payment.amountLamports,
+    feeLamports = payment.feeLamports
+  ): Promise<void> {
+    const { taskId } = payment;
+    const escrow = await this.findEscrow(taskId);
+
+    if (!escrow) {
+      return;
+    }
+
+    const reclaimed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.escrow.updateMany({
+        where: { id: escrow.id, status: escrow.status, releasedLamports: { gte: amountLamports } },
+        data: escrow.status === 'LOCKED'
+          ? { releasedLamports: { decrement: amountLamports } }
+          : {
+            releasedLamports: { decrement: amountLamports },
+            returnedLamports: { increment: amountLamports },
+          },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      if (escrow.status === 'SETTLED') {
+        await this.credit(tx, escrow.userId, escrow.tokenSymbol, amountLamports);
+      }
+
+      // A payout already sent leaves the Agent owing the refund (negative payable)
+      await ledgerService.post(tx, {
+        kind: 'REFUND',
+        tokenSymbol: escrow.tokenSymbol,
+        taskId,
+        paymentId: payment.id,
+        lines: [
+          {
+            account: { type: 'AGENT_PAYABLE', ownerId: payment.agentId },
+            side: 'DEBIT',
+            amountLamports: amountLamports - feeLamports,
+          },
+          { account: { type: 'PROTOCOL_FEES' }, side: 'DEBIT', amountLamports: feeLamports },
+          {
+            account: escrow.status === 'LOCKED'
+              ? { type: 'ESCROW', ownerId: escrow.taskId }
+              : { type: 'CREATOR_BALANCE', ownerId: escrow.userId },
+            side: 'CREDIT',
+            amountLamports,
+          },
+        ],
+      });
+
+      return true;
+    });
+
+    if (!reclaimed) {
+      throw new ConflictError('Escrow changed while reclaiming funds');
+    }
+
+    logger.info('Escrow reclaimed', {
+      escrowId: escrow.id,
+      taskId,
+      rootTaskId: escrow.taskId,
+      amountLamports: amountLamports.toString(),
+      toBalance: escrow.status === 'SETTLED',
+    });
+  }
+
+  /**
+   * Return the unused remainder once every Task under the escrow finished
+   * Called whenever a Task reaches a terminal status.
+   */
+  async settleTask(taskId: string): Promise<void> {
+    const escrow = await this.findEscrow(taskId);
+
+    if (!escrow || escrow.status !== 'LOCKED' || !(await this.isTreeFinished(escrow.taskId))) {
+      return;
+    }
+
+    const remainderLamports = escrow.amountLamports - escrow.releasedLamports - escrow.returnedLamports;
+
+    const settled = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.escrow.updateMany({
+        where: { id: escrow.id, status: 'LOCKED', releasedLamports: escrow.releasedLamports },
+        data: {
+          status: 'SETTLED',
+          returnedLamports: { increment: remainderLamports },
+          settledAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      if (remainderLamports > 0n) {
+        await this.credit(tx, escrow.userId, escrow.tokenSymbol, remainderLamports);
+        await ledgerService.transfer(tx, {
+          kind: 'RETURN',
+          tokenSymbol: escrow.tokenSymbol,
+          taskId: escrow.taskId,
+          from: { type: 'ESCROW', ownerId: escrow.taskId },
+          to: { type: 'CREATOR_BALANCE', ownerId: escrow.userId },
+          amountLamports: remainderLamports,
+        });
+      }
+
+      return true;
+    });
+
+    if (!settled) {
+      return;
+    }
+
+    logger.info('Escrow settled', {
+      escrowId: escrow.id,
+      taskId: escrow.taskId,
+      releasedLamports: escrow.releasedLamports.toString(),
+      returnedLamports: remainderLamports.toString(),
+    });
+
+    this.emit('escrow:settled', {
+      taskId: escrow.taskId,
+      userId: escrow.userId,
+      tokenSymbol: escrow.tokenSymbol,
+      releasedLamports: escrow.releasedLamports.toString(),
+      returnedLamports: remainderLamports.toString(),
+    });
+  }
+
+  /**
+   * Credit what arrived on-chain for a deposit, then fund its waiting Task
+   */
+  private async checkDeposit(deposit: Deposit): Promise<Deposit> {
+    if (deposit.status === 'PENDING') {
+      const found = await this.solanaClient.findDeposit({
+        depositAddress: deposit.depositAddress,
+        reference: deposit.reference,
+        amountLamports: deposit.amountLamports,
+        tokenMint: deposit.tokenSymbol === 'SOL' ? undefined : deposit.tokenSymbol,
+      });
+      const transfers = await this.uncreditedTransfers(deposit, found);
+      const newLamports = transfers.reduce((sum, t) => sum + t.receivedLamports, 0n);
+
+      if (newLamports > 0n) {
+        const receivedLamports = deposit.receivedLamports + newLamports;
+        const complete = receivedLamports >= deposit.amountLamports;
+
+        // Claim against the amount read, and each signature globally, so a
+        // transfer is credited once and to one deposit
+        const credited = await prisma.$transaction(async (tx) => {
+          const claimed = await tx.deposit.updateMany({
+            where: { id: deposit.id, status: 'PENDING', receivedLamports: deposit.receivedLamports },
+            data: {
+              receivedLamports,
+              txHashes: [...deposit.txHashes, ...transfers.map(t => t.txHash)],
+              status: complete ? 'CREDITED' : 'PENDING',
+              creditedAt: complete ? new Date() : null,
+            },
+          });
+
+          if (claimed.count === 0) {
+            return false;
+          }
+
+          await tx.depositTransfer.createMany({
+            data: transfers.map(t => ({
+              depositId: deposit.id,
+              txHash: t.txHash,
+              amountLamports: t.receivedLamports,
+            })),
+          });
+
+          await this.credit(tx, deposit.userId, deposit.tokenSymbol, newLamports);
+          await ledgerService.transfer(tx, {
+            kind: 'DEPOSIT',
+            tokenSymbol: deposit.tokenSymbol,
+            taskId: deposit.taskId,
+            depositId: deposit.id,
+            from: { type: 'TREASURY' },
+            to: { type: 'CREATOR_BALANCE', ownerId: deposit.userId },
+            amountLamports: newLamports,
+          });
+          return true;
+        }).catch((error) => {
+          // Another check claimed one of the signatures first
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+            return false;
+          }
+          throw error;
+        });
+
+        if (credited) {
+          logger.info('Deposit credited', {
+            depositId: deposit.id,
+            userId: deposit.userId,
+            creditedLamports: newLamports.toString(),
+            receivedLamports: receivedLamports.toString(),
+            complete,
+          });
+
+          this.emit('escrow:deposit-credited', {
+            depositId: deposit.id,
+            userId: deposit.userId,
+            taskId: deposit.taskId,
+            tokenSymbol: deposit.tokenSymbol,
+            creditedLamports: newLamports.toString(),
+            complete,
+          });
+        }
+      }
+    }
+
+    if (deposit.taskId) {
+      await this.fundWaitingTask(deposit.taskId);
+    }
+
+    return prisma.deposit.findUniqueOrThrow({
+      where: { id: deposit.id },
+    });
+  }
+
+  /**
+   * Transfers found for a deposit that no deposit has been credited with yet.
+   * A transaction naming several deposit references is ambiguous and skipped
+   */
+  private async uncreditedTransfers(
+    deposit: Deposit,
+    found: DepositTransfer[]
+  ): Promise<DepositTransfer[]> {
+    if (found.length === 0) {
+      return [];
+    }
+
+    const recorded = await prisma.depositTransfer.findMany({
+      where: { txHash: { in: found.map(t => t.txHash) } },
+      select: { txHash: true },
+    });
+    const recordedHashes = new Set([...deposit.txHashes, ...recorded.map(r => r.txHash)]);
+
+    const transfers: DepositTransfer[] = [];
+    for (const transfer of found) {
+      if (recordedHashes.has(transfer.txHash)) {
+        continue;
+      }
+
+      const references = await prisma.deposit.count({
+        where: { reference: { in: transfer.accountKeys } },
+      });
+      if (references > 1) {
+        logger.warn('Deposit transfer names several deposit references, not credited', {
+          depositId: deposit.id,
+          txHash: transfer.txHash,
+          references,
+        });
+        continue;
+      }
+
+      transfers.push(transfer);
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Fund a Task still waiting for its deposit, if the balance now covers it
+   */
+  private async fundWaitingTask(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+
+    if (task?.status !== 'AWAITING_FUNDING' || !(await this.lockFromBalance(task))) {
+      return;
+    }
+
+    const funded = await prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+    });
+
+    // Sharded Tasks launch their shards; other Tasks launch themselves
+    const tasks = funded.kind === 'SHARD_PARENT'
+      ? await prisma.task.findMany({ where: { parentTaskId: taskId, kind: 'SHARD' }, orderBy: { shardIndex: 'asc' } })
+      : [funded];
+
+    this.emit('escrow:funded', {
+      taskId,
+      userId: funded.createdByUserId,
+      status: funded.status,
+      tasks,
+    });
+  }
+
+  /**
+   * Lock a waiting Task's funds from the balance and open it, atomically
+   * Returns false if the balance falls short or the Task stopped waiting.
+   */
+  private async lockFromBalance(task: Task): Promise<boolean> {
+    const amountLamports = this.getLockAmount(task);
+    const fundedStatus: TaskStatus = task.kind === 'SHARD_PARENT'
+      ? 'RUNNING'
+      : task.dependsOn.length > 0 ? 'BLOCKED' : 'OPEN';
+
+    const locked = await prisma.$transaction(async (tx) => {
+      const opened = await tx.task.updateMany({
+        where: { id: task.id, status: 'AWAITING_FUNDING' },
+        data: { status: fundedStatus },
+      });
+
+      if (opened.count === 0) {
+        return false;
+      }
+
+      const debited = await tx.creatorBalance.updateMany({
+        where: {
+          userId: task.createdByUserId,
+          tokenSymbol: task.paymentTokenSymbol,
+          availableLamports: { gte: amountLamports },
+        },
+        data: { availableLamports: { decrement: amountLamports } },
+      });
+
+      if (debited.count === 0) {
+        // Roll the status change back
+        throw new InsufficientBalance();
+      }
+
+      if (task.kind === 'SHARD_PARENT') {
+        await tx.task.updateMany({
+          where: { parentTaskId: task.id, kind: 'SHARD', status: 'AWAITING_FUNDING' },
+          data: { status: 'OPEN' },
+        });
+      }
+
+      await tx.escrow.create({
+        data: {
+          taskId: task.id,
+          userId: task.createdByUserId,
+          tokenSymbol: task.paymentTokenSymbol,
+          amountLamports,
+        },
+      });
+
+      await ledgerService.transfer(tx, {
+        kind: 'LOCK',
+        tokenSymbol: task.paymentTokenSymbol,
+        taskId: task.id,
+        from: { type: 'CREATOR_BALANCE', ownerId: task.createdByUserId },
+        to: { type: 'ESCROW', ownerId: task.id },
+        amountLamports,
+      });
+
+      return true;
+    }).catch((error) => {
+      if (error instanceof InsufficientBalance) {
+        return false;
+      }
+      throw error;
+    });
+
+    if (locked) {
+      logger.info('Escrow funded', {
+        taskId: task.id,
+        userId: task.createdByUserId,
+        tokenSymbol: task.paymentTokenSymbol,
+        amountLamports: amountLamports.toString(),
+        status: fundedStatus,
+      });
+    }
+
+    return locked;
+  }
+
+  /**
+   * Add funds to a creator's balance
+   */
+  private async credit(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    tokenSymbol: string,
+    amountLamports: bigint
+  ): Promise<void> {
+    await tx.creatorBalance.upsert({
+      where: { userId_tokenSymbol: { userId, tokenSymbol } },
+      create: { userId, tokenSymbol, availableLamports: amountLamports },
+      update: { availableLamports: { increment: amountLamports } },
+    });
+  }
+
+  /**
+   * The escrow paying for a Task: its own, or its closest ancestor's
+   */
+  private async findEscrow(taskId: string): Promise<Escrow | null> {
+    let id: string | null = taskId;
+
+    while (id) {
+      const task: { parentTaskId: string | null; escrow: Escrow | null } | null =
+        await prisma.task.findUnique({
+          where: { id },
+          select: { parentTaskId: true, escrow: true },
+        });
+
+      if (!task) {
+        return null;
+      }
+      if (task.escrow) {
+        return task.escrow;
+      }
+
+      id = task.parentTaskId;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a Task and everything under it (shards, subtasks) finished
+   */
+  private async isTreeFinished(rootTaskId: string): Promise<boolean> {
+    const finished = (task: Task) => isTerminal(task.status);
+
+    const root = await prisma.task.findUnique({
+      where: { id: rootTaskId },
+    });
+
+    if (!root || !finished(root)) {
+      return false;
+    }
+
+    let frontier = [root.id];
+    while (frontier.length > 0) {
+      const children = await prisma.task.findMany({
+        where: { parentTaskId: { in: frontier } },
+      });
+
+      if (!children.every(finished)) {
+        return false;
+      }
+
+      frontier = children.map(child => child.id);
+    }
+
+    return true;
+  }
+}
+
+/**
+ * Thrown inside the funding transaction to roll it back
+ */
+class InsufficientBalance extends Error {}
+
+export const escrowService = new EscrowService();
+export default escrowService;
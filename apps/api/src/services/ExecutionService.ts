@@ -1,11 +1,20 @@
 import { Execution, ExecutionStatus } from '@prisma/client';
 import prisma from '../utils/prisma.js';
-import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { NotFoundError, ValidationError, ConflictError } from '../utils/errors.js';
 import { guardStatus } from '../utils/state-machine.js';
 import logger from '../utils/logger.js';
-import { paymentService } from './PaymentService.js';
+import { config } from '../config/index.js';
 import { reputationService } from './ReputationService.js';
 import { agentService } from './AgentService.js';
+import { taskService } from './TaskService.js';
+import { consensusService } from './ConsensusService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+import { subcontractService } from './SubcontractService.js';
+import { reviewService } from './ReviewService.js';
+import { auctionEngine } from './AuctionEngine.js';
+import { milestoneService } from './MilestoneService.js';
 
 export interface CompleteExecutionInput {
   success: boolean;
@@ -34,17 +43,31 @@ export class ExecutionService {
     }
 
     // Validate Agent is assigned
-    if (task.assignedAgentId !== agentId) {
+    if (!taskService.isAssignedTo(task, agentId)) {
       throw new ValidationError(
         `Agent ${agentId} is not assigned to this Task. ` +
         `Assigned agent: ${task.assignedAgentId || 'none'}`
       );
     }
 
+    if (task.winnerCount > 1) {
+      return this.startConsensusExecution(taskId, agentId);
+    }
+
     // Validate Task status using state machine
     const guard = guardStatus(task.status);
     guard.assertCanStartExecution();
 
+    // Claim the Task first so a concurrent start timeout can't hand it to someone else
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'ASSIGNED', assignedAgentId: agentId },
+      data: { status: 'RUNNING', startDeadlineAt: null },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Task is no longer assigned to this Agent');
+    }
+
     // Find or create Execution record
     let execution = await prisma.execution.findFirst({
       where: {
@@ -73,19 +96,52 @@ export class ExecutionService {
       },
     });
 
-    // Update Task status
-    await prisma.task.update({
-      where: { id: taskId },
+    logger.info('Execution started', {
+      executionId: execution.id,
+      taskId,
+      agentId,
+    });
+
+    return execution;
+  }
+
+  /**
+   * Start one of the Executions of a consensus Task
+   *
+   * The Task moves to RUNNING with the first start; the other winners
+   * can still start while it runs.
+   */
+  private async startConsensusExecution(taskId: string, agentId: string): Promise<Execution> {
+    const execution = await prisma.execution.findFirst({
+      where: { taskId, agentId, status: 'PENDING' },
+    });
+
+    if (!execution) {
+      throw new ConflictError('No pending Execution for this Agent (already started or abandoned)');
+    }
+
+    // Claim the Execution so a concurrent start timeout can't abandon it
+    const claimed = await prisma.execution.updateMany({
+      where: { id: execution.id, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Execution is no longer pending');
+    }
+
+    await prisma.task.updateMany({
+      where: { id: taskId, status: 'ASSIGNED' },
       data: { status: 'RUNNING' },
     });
 
-    logger.info('Execution started', {
+    logger.info('Consensus execution started', {
       executionId: execution.id,
       taskId,
       agentId,
     });
 
-    return execution;
+    return this.getExecutionById(execution.id);
   }
 
   /**
@@ -105,7 +161,7 @@ export class ExecutionService {
     }
 
     // Validate Agent is assigned
-    if (task.assignedAgentId !== agentId) {
+    if (!taskService.isAssignedTo(task, agentId)) {
       throw new ValidationError('Agent is not assigned to this Task');
     }
 
@@ -113,6 +169,11 @@ export class ExecutionService {
     const guard = guardStatus(task.status);
     guard.assertCanComplete();
 
+    // Milestone Tasks complete when their last milestone is approved
+    if (input.success && task.milestoneCount > 0) {
+      throw new ValidationError('Milestone Tasks deliver their result through milestone submissions');
+    }
+
     // Find the running Execution
     const execution = await prisma.execution.findFirst({
       where: {
@@ -126,6 +187,8 @@ export class ExecutionService {
       throw new NotFoundError('Running Execution');
     }
 
+    await subcontractService.assertSubtasksFinished(taskId, agentId);
+
     const completedAt = new Date();
     const executionStatus: ExecutionStatus = input.success ? 'SUCCESS' : 'FAILURE';
 
@@ -145,67 +208,154 @@ export class ExecutionService {
     // Calculate execution duration
     const durationSeconds = (completedAt.getTime() - execution.startedAt.getTime()) / 1000;
 
-    if (input.success) {
-      // Mark Task as COMPLETED
-      await prisma.task.update({
-        where: { id: taskId },
-        data: { status: 'COMPLETED' },
-      });
-
-      // Create pending Payment
-      await paymentService.createPendingPayment(
-        taskId,
-        agentId,
-        task.budgetLamports,
-        task.paymentTokenSymbol
-      );
-
-      // Apply positive reputation
-      await reputationService.applyEvent(
-        agentId,
-        taskId,
-        0.1,
-        `Successfully completed Task in ${durationSeconds.toFixed(1)}s`
-      );
+    // Consensus Tasks settle (payment, reputation, status) once every winner reported
+    if (task.winnerCount > 1) {
+      if (!input.success) {
+        await reputationService.applyEvent(
+          agentId,
+          taskId,
+          -0.2,
+          `Task execution failed: ${input.errorMessage || 'Unknown error'}`
+        );
+        await agentService.recomputeStats(agentId);
+      }
 
-      logger.info('Execution completed successfully', {
+      logger.info('Consensus execution reported', {
         executionId: execution.id,
         taskId,
         agentId,
+        success: input.success,
         durationSeconds,
-        resultSummary: input.resultSummary,
       });
 
-    } else {
-      // Mark Task as FAILED
-      await prisma.task.update({
-        where: { id: taskId },
-        data: { status: 'FAILED' },
-      });
+      await consensusService.resolveIfFinished(taskId);
 
-      // Apply negative reputation
-      await reputationService.applyEvent(
-        agentId,
-        taskId,
-        -0.2,
-        `Task execution failed: ${input.errorMessage || 'Unknown error'}`
-      );
+      return updatedExecution;
+    }
 
-      logger.info('Execution failed', {
+    if (input.success) {
+      logger.info('Execution completed successfully', {
         executionId: execution.id,
         taskId,
         agentId,
         durationSeconds,
-        errorMessage: input.errorMessage,
+        resultSummary: input.resultSummary,
       });
+
+      // Payment and reputation wait for the creator to accept the result
+      await reviewService.submitForReview(task, updatedExecution);
+
+      return updatedExecution;
     }
 
+    // Apply negative reputation
+    await reputationService.applyEvent(
+      agentId,
+      taskId,
+      -0.2,
+      `Task execution failed: ${input.errorMessage || 'Unknown error'}`
+    );
+
+    logger.info('Execution failed', {
+      executionId: execution.id,
+      taskId,
+      agentId,
+      durationSeconds,
+      errorMessage: input.errorMessage,
+    });
+
     // Recompute Agent stats
     await agentService.recomputeStats(agentId);
 
+    await this.failTask(taskId, agentId);
+
     return updatedExecution;
   }
 
+  /**
+   * Fail a RUNNING Execution that ran out of time
+   * Returns null if the Execution already finished.
+   */
+  async timeoutExecution(executionId: string, reason: string): Promise<Execution | null> {
+    // Claim the Execution so a completion racing the timeout wins or loses cleanly
+    const claimed = await prisma.execution.updateMany({
+      where: { id: executionId, status: 'RUNNING' },
+      data: {
+        status: 'TIMED_OUT',
+        completedAt: new Date(),
+        errorMessage: reason,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const execution = await prisma.execution.findUniqueOrThrow({
+      where: { id: executionId },
+      include: { task: true },
+    });
+    const { task, agentId, taskId } = execution;
+
+    await reputationService.applyEvent(
+      agentId,
+      taskId,
+      -config.execution.timeoutPenalty,
+      `Execution timed out: ${reason}`
+    );
+    await agentService.recomputeStats(agentId);
+
+    logger.warn('Execution timed out', {
+      executionId,
+      taskId,
+      agentId,
+      reason,
+    });
+
+    // Consensus Tasks settle with the results they have
+    if (task.winnerCount > 1) {
+      await consensusService.resolveIfFinished(taskId);
+      return execution;
+    }
+
+    await this.failTask(taskId, agentId);
+
+    return execution;
+  }
+
+  /**
+   * Fail a RUNNING single-winner Task
+   * While its retry policy allows, it goes straight back to auction without
+   * the Agent that failed it; otherwise dependents and shard parents move on.
+   */
+  private async failTask(taskId: string, agentId: string): Promise<void> {
+    const failed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'RUNNING' },
+      data: { status: 'FAILED' },
+    });
+
+    if (failed.count === 0) {
+      return;
+    }
+
+    // What the failed Agent's subtasks spent or still hold stays out of the next auction
+    const task = await taskService.getTaskById(taskId);
+    const { committedLamports } = await subcontractService.getSubtaskBudget(task, agentId);
+
+    const retried = await taskService.retryTask(taskId, agentId, committedLamports);
+    if (retried) {
+      await auctionEngine.startAuction(retried);
+      return;
+    }
+
+    await milestoneService.cancelOpenMilestones(taskId);
+
+    // Move a map-reduce parent and dependent Tasks on, and settle the escrow
+    await shardService.handleShardFinished(taskId);
+    await escrowService.settleTask(taskId);
+    await workflowService.handleTaskFinished(taskId);
+  }
+
   /**
    * Get Execution by ID
    */
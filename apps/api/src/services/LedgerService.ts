@@ -0,0 +1,381 @@
+import {
+  LedgerAccount,
+  LedgerAccountType,
+  LedgerEntry,
+  LedgerSide,
+  LedgerTransaction,
+  LedgerTransactionKind,
+  Prisma,
+} from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+
+export interface LedgerAccountRef {
+  type: LedgerAccountType;
+  ownerId?: string | null; // User, root Task or Agent; none for TREASURY and PROTOCOL_FEES
+}
+
+export interface LedgerLine {
+  account: LedgerAccountRef;
+  side: LedgerSide;
+  amountLamports: bigint;
+}
+
+export interface PostingInput {
+  kind: LedgerTransactionKind;
+  tokenSymbol: string;
+  lines: LedgerLine[];
+  taskId?: string | null;
+  paymentId?: string | null;
+  depositId?: string | null;
+  memo?: string;
+}
+
+export interface LedgerAccountFilters {
+  type?: LedgerAccountType;
+  ownerId?: string;
+  tokenSymbol?: string;
+}
+
+export interface LedgerTokenReconciliation {
+  tokenSymbol: string;
+  treasuryLamports: bigint; // what the treasury should hold
+  liabilitiesLamports: bigint; // creator balances + escrows + agent payables + fees
+  owedToAgentsLamports: bigint; // AGENT_PAYABLE balances
+  unsettledPaymentsLamports: bigint; // payments not COMPLETED (nor REFUNDED) yet, net of fees
+  paidOutLamports: bigint; // PAYOUT postings out of the treasury (refunds excluded)
+  settledPaymentsLamports: bigint; // payments sent (txHash set), net of fees
+}
+
+export interface LedgerIntegrityReport {
+  ok: boolean;
+  checkedAt: Date;
+  transactionCount: number;
+  unbalancedTransactionIds: string[]; // debits and credits differ
+  mismatchedAccounts: {
+    accountId: string;
+    key: string;
+    balanceLamports: bigint; // stored
+    entriesLamports: bigint; // recomputed from the entries
+  }[];
+  tokens: LedgerTokenReconciliation[];
+}
+
+// Accounts holding assets grow with debits; everything else grows with credits
+const DEBIT_NORMAL: LedgerAccountType[] = ['TREASURY'];
+
+/**
+ * LedgerService - Double-entry journal of every value movement
+ *
+ * Each movement of funds (deposit, escrow lock, release to an Agent, protocol
+ * fee, payout, refund, escrow return) is posted as a LedgerTransaction whose
+ * entries debit and credit accounts by the same total. Accounts are keyed by
+ * type, owner and token and keep a running balance on their normal side, so
+ * treasury = creator balances + escrows + agent payables + protocol fees at
+ * all times. Postings take the caller's Prisma transaction, so they commit
+ * or roll back with the state change they record.
+ */
+export class LedgerService {
+  /**
+   * Post a balanced transaction
+   * Zero-amount lines are dropped; nothing is posted if none are left.
+   */
+  async post(
+    tx: Prisma.TransactionClient,
+    input: PostingInput
+  ): Promise<LedgerTransaction | null> {
+    const lines = input.lines.filter(line => line.amountLamports !== 0n);
+
+    if (lines.length === 0) {
+      return null;
+    }
+
+    const total = (side: LedgerSide) => lines
+      .filter(line => line.side === side)
+      .reduce((sum, line) => sum + line.amountLamports, 0n);
+
+    if (lines.some(line => line.amountLamports < 0n) || total('DEBIT') !== total('CREDIT')) {
+      throw new Error(
+        `Unbalanced ${input.kind} posting: debits ${total('DEBIT')}, credits ${total('CREDIT')}`
+      );
+    }
+
+    const accounts: LedgerAccount[] = [];
+    for (const line of lines) {
+      accounts.push(await this.upsertAccount(tx, line.account, input.tokenSymbol));
+    }
+
+    const transaction = await tx.ledgerTransaction.create({
+      data: {
+        kind: input.kind,
+        tokenSymbol: input.tokenSymbol,
+        taskId: input.taskId,
+        paymentId: input.paymentId,
+        depositId: input.depositId,
+        memo: input.memo,
+        entries: {
+          create: lines.map((line, index) => ({
+            accountId: accounts[index].id,
+            side: line.side,
+            amountLamports: line.amountLamports,
+          })),
+        },
+      },
+    });
+
+    for (const [index, line] of lines.entries()) {
+      await tx.ledgerAccount.update({
+        where: { id: accounts[index].id },
+        data: { balanceLamports: { increment: this.signedAmount(accounts[index].type, line) } },
+      });
+    }
+
+    logger.debug('Ledger transaction posted', {
+      transactionId: transaction.id,
+      kind: input.kind,
+      tokenSymbol: input.tokenSymbol,
+      amountLamports: total('DEBIT').toString(),
+    });
+
+    return transaction;
+  }
+
+  /**
+   * Post a two-line transfer: debit one account, credit another
+   */
+  async transfer(
+    tx: Prisma.TransactionClient,
+    input: Omit<PostingInput, 'lines'> & {
+      from: LedgerAccountRef; // debited
+      to: LedgerAccountRef; // credited
+      amountLamports: bigint;
+    }
+  ): Promise<LedgerTransaction | null> {
+    const { from, to, amountLamports, ...posting } = input;
+
+    return this.post(tx, {
+      ...posting,
+      lines: [
+        { account: from, side: 'DEBIT', amountLamports },
+        { account: to, side: 'CREDIT', amountLamports },
+      ],
+    });
+  }
+
+  /**
+   * List accounts with optional filters
+   */
+  async listAccounts(filters: LedgerAccountFilters = {}): Promise<LedgerAccount[]> {
+    return prisma.ledgerAccount.findMany({
+      where: {
+        type: filters.type,
+        ownerId: filters.ownerId,
+        tokenSymbol: filters.tokenSymbol,
+      },
+      orderBy: [{ type: 'asc' }, { tokenSymbol: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get an account by ID
+   */
+  async getAccountById(id: string): Promise<LedgerAccount> {
+    const account = await prisma.ledgerAccount.findUnique({
+      where: { id },
+    });
+
+    if (!account) {
+      throw new NotFoundError('LedgerAccount', id);
+    }
+
+    return account;
+  }
+
+  /**
+   * An account's entries, newest first, with the transaction they belong to
+   */
+  async listEntries(
+    accountId: string,
+    limit = 100
+  ): Promise<(LedgerEntry & { transaction: LedgerTransaction })[]> {
+    await this.getAccountById(accountId);
+
+    return prisma.ledgerEntry.findMany({
+      where: { accountId },
+      include: { transaction: true },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * The transactions recorded for a Task or a payment, oldest first
+   */
+  async listTransactions(filters: {
+    taskId?: string;
+    paymentId?: string;
+  }): Promise<(LedgerTransaction & { entries: (LedgerEntry & { account: LedgerAccount })[] })[]> {
+    return prisma.ledgerTransaction.findMany({
+      where: { taskId: filters.taskId, paymentId: filters.paymentId },
+      include: { entries: { include: { account: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Verify the journal and reconcile it against payments
+   * Every transaction must balance, every stored balance must match its
+   * entries, and per token the treasury must equal everything it owes.
+   */
+  async checkIntegrity(): Promise<LedgerIntegrityReport> {
+    const checkedAt = new Date();
+
+    const sides = await prisma.ledgerEntry.groupBy({
+      by: ['transactionId', 'side'],
+      _sum: { amountLamports: true },
+    });
+
+    const transactionTotals = new Map<string, bigint>();
+    for (const group of sides) {
+      const amount = group._sum.amountLamports ?? 0n;
+      transactionTotals.set(
+        group.transactionId,
+        (transactionTotals.get(group.transactionId) ?? 0n) + (group.side === 'DEBIT' ? amount : -amount)
+      );
+    }
+
+    const unbalancedTransactionIds = [...transactionTotals]
+      .filter(([, difference]) => difference !== 0n)
+      .map(([transactionId]) => transactionId);
+
+    const accounts = await prisma.ledgerAccount.findMany();
+    const accountSides = await prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'side'],
+      _sum: { amountLamports: true },
+    });
+
+    const entriesBalances = new Map<string, bigint>();
+    for (const group of accountSides) {
+      const account = accounts.find(candidate => candidate.id === group.accountId);
+      if (!account) {
+        continue;
+      }
+
+      const signed = this.signedAmount(account.type, {
+        side: group.side,
+        amountLamports: group._sum.amountLamports ?? 0n,
+      });
+      entriesBalances.set(account.id, (entriesBalances.get(account.id) ?? 0n) + signed);
+    }
+
+    const mismatchedAccounts = accounts
+      .filter(account => account.balanceLamports !== (entriesBalances.get(account.id) ?? 0n))
+      .map(account => ({
+        accountId: account.id,
+        key: account.key,
+        balanceLamports: account.balanceLamports,
+        entriesLamports: entriesBalances.get(account.id) ?? 0n,
+      }));
+
+    const tokens = await this.reconcileTokens(accounts);
+
+    const report: LedgerIntegrityReport = {
+      ok: unbalancedTransactionIds.length === 0 &&
+        mismatchedAccounts.length === 0 &&
+        tokens.every(token => token.treasuryLamports === token.liabilitiesLamports),
+      checkedAt,
+      transactionCount: transactionTotals.size,
+      unbalancedTransactionIds,
+      mismatchedAccounts,
+      tokens,
+    };
+
+    if (!report.ok) {
+      logger.warn('Ledger integrity check failed', {
+        unbalancedTransactions: unbalancedTransactionIds.length,
+        mismatchedAccounts: mismatchedAccounts.length,
+      });
+    }
+
+    return report;
+  }
+
+  /**
+   * Per token: the accounting equation, and what Agents are owed and were
+   * sent according to the ledger and to the payments
+   */
+  private async reconcileTokens(accounts: LedgerAccount[]): Promise<LedgerTokenReconciliation[]> {
+    const payments = await prisma.payment.findMany({
+      select: { status: true, txHash: true, tokenSymbol: true, amountLamports: true, feeLamports: true },
+    });
+
+    const payouts = await prisma.ledgerTransaction.findMany({
+      where: { kind: 'PAYOUT' },
+      include: { entries: { include: { account: true } } },
+    });
+
+    const tokenSymbols = new Set([
+      ...accounts.map(account => account.tokenSymbol),
+      ...payments.map(payment => payment.tokenSymbol),
+    ]);
+
+    return [...tokenSymbols].sort().map(tokenSymbol => {
+      const balance = (types: LedgerAccountType[]) => accounts
+        .filter(account => account.tokenSymbol === tokenSymbol && types.includes(account.type))
+        .reduce((sum, account) => sum + account.balanceLamports, 0n);
+
+      const paymentsNet = (matches: (payment: typeof payments[number]) => boolean) => payments
+        .filter(payment => payment.tokenSymbol === tokenSymbol && matches(payment))
+        .reduce((sum, payment) => sum + payment.amountLamports - payment.feeLamports, 0n);
+
+      const paidOutLamports = payouts
+        .filter(payout => payout.tokenSymbol === tokenSymbol)
+        .flatMap(payout => payout.entries)
+        .filter(entry => entry.account.type === 'TREASURY' && entry.side === 'CREDIT')
+        .reduce((sum, entry) => sum + entry.amountLamports, 0n);
+
+      return {
+        tokenSymbol,
+        treasuryLamports: balance(['TREASURY']),
+        liabilitiesLamports: balance(['CREATOR_BALANCE', 'ESCROW', 'AGENT_PAYABLE', 'PROTOCOL_FEES']),
+        owedToAgentsLamports: balance(['AGENT_PAYABLE']),
+        unsettledPaymentsLamports: paymentsNet(payment => payment.status !== 'COMPLETED' && payment.status !== 'REFUNDED'),
+        paidOutLamports,
+        settledPaymentsLamports: paymentsNet(payment => payment.txHash !== null), // refunded later or not
+      };
+    });
+  }
+
+  /**
+   * Find or open the account for a reference
+   */
+  private async upsertAccount(
+    tx: Prisma.TransactionClient,
+    ref: LedgerAccountRef,
+    tokenSymbol: string
+  ): Promise<LedgerAccount> {
+    const ownerId = ref.ownerId ?? null;
+    const key = `${ref.type}:${ownerId ?? ''}:${tokenSymbol}`;
+
+    return tx.ledgerAccount.upsert({
+      where: { key },
+      create: { key, type: ref.type, ownerId, tokenSymbol },
+      update: {},
+    });
+  }
+
+  /**
+   * An entry's effect on its account's balance (normal side positive)
+   */
+  private signedAmount(
+    type: LedgerAccountType,
+    entry: { side: LedgerSide; amountLamports: bigint }
+  ): bigint {
+    const normalSide: LedgerSide = DEBIT_NORMAL.includes(type) ? 'DEBIT' : 'CREDIT';
+    return entry.side === normalSide ? entry.amountLamports : -entry.amountLamports;
+  }
+}
+
+export const ledgerService = new LedgerService();
+export default ledgerService;
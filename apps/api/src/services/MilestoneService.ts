@@ -0,0 +1,473 @@
+import { EventEmitter } from 'events';
+import { Milestone, Task } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors.js';
+import { config } from '../config/index.js';
+import { paymentService } from './PaymentService.js';
+import { reputationService } from './ReputationService.js';
+import { agentService } from './AgentService.js';
+import { taskService } from './TaskService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+import { subcontractService } from './SubcontractService.js';
+
+export interface SubmitMilestoneInput {
+  signedResultPayload: string;
+  resultSummary?: string;
+}
+
+/**
+ * MilestoneService - Long-running Tasks delivered and paid in ordered milestones
+ *
+ * The assigned Agent submits milestones one at a time, in order. Each one is
+ * reviewed by the creator like a whole result (reviewWindowSeconds, then
+ * auto-approved by the scheduler) and gets its own Payment on approval:
+ * shareBps of the Agent's price, with the last milestone paying whatever is
+ * left of its net share (subtasks included). Sent-back milestones are
+ * resubmitted. Approving the last milestone completes the Task and its
+ * Execution. Cancelling partway pays submitted milestones and drops the rest.
+ *
+ * Events emitted:
+ * - 'milestones:submitted' - when the Agent delivered a milestone
+ * - 'milestones:approved' - when a milestone was approved and paid
+ * - 'milestones:rejected' - when the creator sent a milestone back
+ * - 'milestones:cancelled' - when the creator cancelled the Task partway
+ */
+export class MilestoneService extends EventEmitter {
+  /**
+   * List a Task's milestones in delivery order
+   */
+  async listMilestones(taskId: string): Promise<Milestone[]> {
+    return prisma.milestone.findMany({
+      where: { taskId },
+      orderBy: { index: 'asc' },
+    });
+  }
+
+  /**
+   * Deliver the next milestone of a RUNNING Task
+   */
+  async submitMilestone(
+    taskId: string,
+    agentId: string,
+    index: number,
+    input: SubmitMilestoneInput
+  ): Promise<Milestone> {
+    const task = await taskService.getTaskById(taskId);
+
+    if (task.milestoneCount === 0) {
+      throw new ValidationError('Task has no milestones');
+    }
+
+    if (task.status !== 'RUNNING' || task.assignedAgentId !== agentId) {
+      throw new ConflictError('Milestones can only be submitted by the Agent running the Task');
+    }
+
+    const execution = await prisma.execution.findFirst({
+      where: { taskId, agentId, status: 'RUNNING' },
+    });
+
+    if (!execution) {
+      throw new NotFoundError('Running Execution');
+    }
+
+    const milestones = await this.listMilestones(taskId);
+    const next = milestones.find(milestone => milestone.status !== 'APPROVED');
+
+    if (next?.status === 'SUBMITTED') {
+      throw new ConflictError(`Milestone ${next.index} is still waiting for approval`);
+    }
+
+    if (!next || next.index !== index) {
+      throw new ConflictError(`Milestones are submitted in order: the next one is ${next?.index ?? 'none'}`);
+    }
+
+    // The last milestone settles the Agent's share, so its subtasks must be done
+    if (index === task.milestoneCount - 1) {
+      await subcontractService.assertSubtasksFinished(taskId, agentId);
+    }
+
+    const submittedAt = new Date();
+    const windowMs = task.reviewWindowSeconds != null
+      ? task.reviewWindowSeconds * 1000
+      : config.review.autoAcceptMs;
+
+    const claimed = await prisma.milestone.updateMany({
+      where: { id: next.id, status: 'PENDING' },
+      data: {
+        status: 'SUBMITTED',
+        agentId,
+        executionId: execution.id,
+        signedResultPayload: input.signedResultPayload,
+        resultSummary: input.resultSummary,
+        submittedAt,
+        reviewDeadlineAt: new Date(submittedAt.getTime() + windowMs),
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Milestone was submitted already');
+    }
+
+    logger.info('Milestone submitted', {
+      taskId,
+      agentId,
+      index,
+      milestoneCount: task.milestoneCount,
+    });
+
+    this.emit('milestones:submitted', {
+      taskId,
+      agentId,
+      milestoneId: next.id,
+      index,
+    });
+
+    if (windowMs <= 0) {
+      await this.approve(next.id, false);
+    }
+
+    return prisma.milestone.findUniqueOrThrow({
+      where: { id: next.id },
+    });
+  }
+
+  /**
+   * Approve a submitted milestone (creator only)
+   */
+  async approveMilestone(taskId: string, userId: string, index: number): Promise<Milestone> {
+    const milestone = await this.getReviewableMilestone(taskId, userId, index);
+
+    if (!(await this.approve(milestone.id, false))) {
+      throw new ConflictError('Milestone is no longer waiting for approval');
+    }
+
+    return prisma.milestone.findUniqueOrThrow({
+      where: { id: milestone.id },
+    });
+  }
+
+  /**
+   * Send a submitted milestone back to the Agent (creator only)
+   */
+  async rejectMilestone(
+    taskId: string,
+    userId: string,
+    index: number,
+    feedback: string
+  ): Promise<Milestone> {
+    const milestone = await this.getReviewableMilestone(taskId, userId, index);
+
+    const claimed = await prisma.milestone.updateMany({
+      where: { id: milestone.id, status: 'SUBMITTED' },
+      data: {
+        status: 'PENDING',
+        feedback,
+        reviewDeadlineAt: null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Milestone is no longer waiting for approval');
+    }
+
+    logger.info('Milestone sent back', {
+      taskId,
+      agentId: milestone.agentId,
+      index,
+    });
+
+    this.emit('milestones:rejected', {
+      taskId,
+      agentId: milestone.agentId,
+      milestoneId: milestone.id,
+      index,
+      feedback,
+    });
+
+    return prisma.milestone.findUniqueOrThrow({
+      where: { id: milestone.id },
+    });
+  }
+
+  /**
+   * Approve every submitted milestone whose review window has passed
+   * Returns the ids of the milestones approved.
+   */
+  async approveOverdueMilestones(): Promise<string[]> {
+    const overdue = await prisma.milestone.findMany({
+      where: {
+        status: 'SUBMITTED',
+        reviewDeadlineAt: { lte: new Date() },
+        task: { status: 'RUNNING' },
+      },
+      select: { id: true },
+    });
+
+    const approved: string[] = [];
+    for (const milestone of overdue) {
+      try {
+        if (await this.approve(milestone.id, true)) {
+          approved.push(milestone.id);
+        }
+      } catch (error) {
+        logger.error(`Failed to auto-approve milestone ${milestone.id}`, error as Error);
+      }
+    }
+
+    return approved;
+  }
+
+  /**
+   * Cancel a RUNNING milestone Task, paying for what was delivered so far
+   * Submitted milestones are approved; undelivered ones are dropped.
+   */
+  async cancelPartway(taskId: string, userId: string): Promise<Task> {
+    const task = await taskService.getTaskById(taskId);
+
+    if (task.createdByUserId !== userId) {
+      throw new ForbiddenError('Only the Task creator can cancel it');
+    }
+
+    if (task.milestoneCount === 0 || task.status !== 'RUNNING') {
+      throw new ConflictError('Only RUNNING milestone Tasks can be cancelled partway');
+    }
+
+    const submitted = await prisma.milestone.findMany({
+      where: { taskId, status: 'SUBMITTED' },
+      orderBy: { index: 'asc' },
+    });
+
+    for (const milestone of submitted) {
+      await this.approve(milestone.id, false);
+    }
+
+    // Claim the Task so a last approval racing the cancellation settles it once
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'RUNNING' },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Task finished while being cancelled');
+    }
+
+    await this.cancelOpenMilestones(taskId);
+
+    await prisma.execution.updateMany({
+      where: { taskId, status: 'RUNNING' },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+
+    const approved = await prisma.milestone.count({
+      where: { taskId, status: 'APPROVED' },
+    });
+
+    logger.info('Milestone Task cancelled partway', {
+      taskId,
+      agentId: task.assignedAgentId,
+      approved,
+      milestoneCount: task.milestoneCount,
+    });
+
+    this.emit('milestones:cancelled', {
+      taskId,
+      agentId: task.assignedAgentId,
+      approved,
+      milestoneCount: task.milestoneCount,
+    });
+
+    return prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+    });
+  }
+
+  /**
+   * Drop the milestones of a Task that ended before they were delivered
+   */
+  async cancelOpenMilestones(taskId: string): Promise<void> {
+    await prisma.milestone.updateMany({
+      where: { taskId, status: { in: ['PENDING', 'SUBMITTED'] } },
+      data: { status: 'CANCELLED', reviewDeadlineAt: null },
+    });
+  }
+
+  /**
+   * Approve a milestone and pay for it; the last one completes the Task
+   * Returns false if the milestone is no longer waiting for approval. If the
+   * payment can't be created, the milestone is put back up for approval.
+   */
+  private async approve(milestoneId: string, automatic: boolean): Promise<boolean> {
+    const submitted = await prisma.milestone.findUnique({
+      where: { id: milestoneId },
+      select: { reviewDeadlineAt: true },
+    });
+
+    // Claim the milestone so the creator and the scheduler approve it once
+    const claimed = await prisma.milestone.updateMany({
+      where: { id: milestoneId, status: 'SUBMITTED' },
+      data: { status: 'APPROVED', approvedAt: new Date(), reviewDeadlineAt: null },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const milestone = await prisma.milestone.findUniqueOrThrow({
+      where: { id: milestoneId },
+      include: { task: true },
+    });
+    const { task } = milestone;
+    const agentId = milestone.agentId!;
+    const last = milestone.index === task.milestoneCount - 1;
+
+    try {
+      const amountLamports = await this.getMilestoneAmount(task, milestone, last);
+
+      // Subtasks can use up the share: the milestone is approved with nothing to pay
+      if (amountLamports > 0n) {
+        await paymentService.createPendingPayment(
+          task.id,
+          agentId,
+          amountLamports,
+          task.paymentTokenSymbol,
+          task.fundedByAgentId,
+          milestone.id
+        );
+      }
+    } catch (error) {
+      // Not paid: not approved either (overdue milestones are retried by the scheduler)
+      await prisma.milestone.updateMany({
+        where: { id: milestoneId, status: 'APPROVED' },
+        data: { status: 'SUBMITTED', approvedAt: null, reviewDeadlineAt: submitted?.reviewDeadlineAt ?? null },
+      });
+      throw error;
+    }
+
+    logger.info('Milestone approved', {
+      taskId: task.id,
+      agentId,
+      index: milestone.index,
+      automatic,
+    });
+
+    this.emit('milestones:approved', {
+      taskId: task.id,
+      agentId,
+      milestoneId,
+      index: milestone.index,
+      automatic,
+    });
+
+    if (last) {
+      await this.completeTask(task, milestone);
+    }
+
+    return true;
+  }
+
+  /**
+   * What an approved milestone pays: its share of the Agent's price, or
+   * for the last one, what is left of the Agent's net share
+   * Earlier milestones are capped at what subtasks and milestones paid so far
+   * left of the share, so the escrow can always cover the subtasks too.
+   */
+  private async getMilestoneAmount(task: Task, milestone: Milestone, last: boolean): Promise<bigint> {
+    const agentId = milestone.agentId!;
+
+    if (!last) {
+      const budget = await subcontractService.getSubtaskBudget(task, agentId);
+      const amountLamports = (budget.shareLamports * BigInt(milestone.shareBps)) / 10000n;
+      return amountLamports < budget.availableLamports ? amountLamports : budget.availableLamports;
+    }
+
+    const paid = await prisma.payment.aggregate({
+      where: { taskId: task.id, agentId, status: { in: ['PENDING', 'SUBMITTED', 'CONFIRMED', 'COMPLETED'] } },
+      _sum: { amountLamports: true },
+    });
+    const paidLamports = paid._sum.amountLamports ?? 0n;
+    const netShare = await subcontractService.getNetShare(task, agentId);
+
+    return netShare > paidLamports ? netShare - paidLamports : 0n;
+  }
+
+  /**
+   * Complete the Task and its Execution after the last milestone
+   */
+  private async completeTask(task: Task, milestone: Milestone): Promise<void> {
+    const claimed = await prisma.task.updateMany({
+      where: { id: task.id, status: 'RUNNING' },
+      data: { status: 'COMPLETED' },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const agentId = milestone.agentId!;
+
+    await prisma.execution.updateMany({
+      where: { id: milestone.executionId!, status: 'RUNNING' },
+      data: {
+        status: 'SUCCESS',
+        completedAt: new Date(),
+        signedResultPayload: milestone.signedResultPayload,
+        resultSummary: milestone.resultSummary,
+      },
+    });
+
+    await reputationService.applyEvent(
+      agentId,
+      task.id,
+      0.1,
+      `Delivered all ${task.milestoneCount} milestones`
+    );
+    await agentService.recomputeStats(agentId);
+
+    logger.info('Milestone Task completed', {
+      taskId: task.id,
+      agentId,
+      milestoneCount: task.milestoneCount,
+    });
+
+    // Move a map-reduce parent and dependent Tasks on, and settle the escrow
+    await shardService.handleShardFinished(task.id);
+    await escrowService.settleTask(task.id);
+    await workflowService.handleTaskFinished(task.id);
+  }
+
+  /**
+   * A submitted milestone, checked against the reviewing user
+   */
+  private async getReviewableMilestone(taskId: string, userId: string, index: number): Promise<Milestone> {
+    const task = await taskService.getTaskById(taskId);
+
+    if (task.createdByUserId !== userId) {
+      throw new ForbiddenError('Only the Task creator can review milestones');
+    }
+
+    const milestone = await prisma.milestone.findUnique({
+      where: { taskId_index: { taskId, index } },
+    });
+
+    if (!milestone) {
+      throw new NotFoundError('Milestone', `${taskId}#${index}`);
+    }
+
+    if (milestone.status !== 'SUBMITTED' || task.status !== 'RUNNING') {
+      throw new ConflictError(`Milestone ${index} is ${milestone.status}, not waiting for approval`);
+    }
+
+    return milestone;
+  }
+}
+
+export const milestoneService = new MilestoneService();
+export default milestoneService;
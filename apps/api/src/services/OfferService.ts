@@ -1,15 +1,31 @@
-import { Offer, OfferStatus } from '@prisma/client';
+import { Agent, Offer, OfferRevision, OfferStatus, Task } from '@prisma/client';
 import prisma from '../utils/prisma.js';
-import { NotFoundError, ValidationError, AuctionError } from '../utils/errors.js';
-import { guardStatus } from '../utils/state-machine.js';
+import { config } from '../config/index.js';
+import { NotFoundError, ValidationError, AuctionError, ConflictError } from '../utils/errors.js';
+import { guardStatus, canAcceptOffers } from '../utils/state-machine.js';
 import logger from '../utils/logger.js';
 import { agentService } from './AgentService.js';
+import {
+  getScoringPolicy,
+  resolveWeights,
+  computeScore,
+  findPriceForScore,
+} from '../scoring/index.js';
 
 export interface CreateOfferInput {
   priceLamports: bigint;
   etaSeconds: number;
+  validUntil?: Date;
 }
 
+export interface AmendOfferInput {
+  priceLamports?: bigint;
+  etaSeconds?: number;
+  validUntil?: Date | null; // null clears the expiry
+}
+
+export type OfferWithAgent = Offer & { agent: Agent };
+
 /**
  * OfferService - Manages Offers (bids) from Agents
  * 
@@ -38,6 +54,11 @@ export class OfferService {
     const guard = guardStatus(task.status);
     guard.assertCanAcceptOffers();
 
+    // Bidding opens with the auction, not before
+    if (task.auctionStartsAt && task.auctionStartsAt > new Date()) {
+      throw new AuctionError(`Auction for this Task opens at ${task.auctionStartsAt.toISOString()}`);
+    }
+
     // Get the Agent
     const agent = await agentService.getAgentById(agentId);
 
@@ -54,6 +75,12 @@ export class OfferService {
       );
     }
 
+    // Validate Agent meets the Task's eligibility rules
+    agentService.assertEligibleForTask(agent, task);
+
+    // Lapsed offers shouldn't block a fresh one
+    await this.expireStaleOffers(taskId);
+
     // Check for existing pending offer from same Agent
     const existingOffer = await prisma.offer.findFirst({
       where: {
@@ -64,23 +91,23 @@ export class OfferService {
     });
 
     if (existingOffer) {
-      throw new AuctionError('Agent already has a pending offer for this Task. Cancel it first to submit a new one.');
+      throw new AuctionError('Agent already has a pending offer for this Task. Amend it instead of submitting a new one.');
     }
 
-    // Validate price doesn't exceed budget
-    if (input.priceLamports > task.budgetLamports) {
-      throw new ValidationError(
-        `Offer price (${input.priceLamports}) exceeds task budget (${task.budgetLamports})`
-      );
-    }
+    this.assertPriceWithinLimits(task, input.priceLamports);
+    this.assertEtaWithinDeadline(task, input.etaSeconds);
+    this.assertValidUntil(input.validUntil);
 
-    // Compute score
+    // Compute score (provisional, refreshed when the auction closes)
     const score = this.computeOfferScore(
+      task,
       input.priceLamports,
       input.etaSeconds,
       agent.reputationScore
     );
 
+    await this.assertBeatsBestOffer(task, score);
+
     // Create the offer
     const offer = await prisma.offer.create({
       data: {
@@ -89,6 +116,7 @@ export class OfferService {
         priceLamports: input.priceLamports,
         etaSeconds: input.etaSeconds,
         score,
+        validUntil: input.validUntil,
         status: 'PENDING',
       },
     });
@@ -106,29 +134,342 @@ export class OfferService {
   }
 
   /**
-   * Compute offer score for auction ranking
-   * 
-   * score = 100 - (α × log(price)) - (β × log(eta + 1)) + (γ × reputation)
+   * Amend a pending offer's price, ETA or expiry in place
+   *
+   * The replaced terms are kept as an OfferRevision. The offer keeps its
+   * id and place; only its score changes.
+   */
+  async amendOffer(
+    offerId: string,
+    agentId: string,
+    input: AmendOfferInput
+  ): Promise<Offer> {
+    if (
+      input.priceLamports === undefined &&
+      input.etaSeconds === undefined &&
+      input.validUntil === undefined
+    ) {
+      throw new ValidationError('Nothing to amend: provide priceLamports, etaSeconds or validUntil');
+    }
+
+    const offer = await prisma.offer.findUnique({
+      where: { id: offerId },
+      include: { task: true, agent: true },
+    });
+
+    if (!offer) {
+      throw new NotFoundError('Offer', offerId);
+    }
+
+    if (offer.agentId !== agentId) {
+      throw new ValidationError('Only the offer owner can amend it');
+    }
+
+    if (offer.validUntil && offer.validUntil <= new Date()) {
+      await this.expireStaleOffers(offer.taskId);
+      throw new AuctionError(`Cannot amend offer: it expired at ${offer.validUntil.toISOString()}`);
+    }
+
+    if (offer.status !== 'PENDING') {
+      throw new AuctionError(`Cannot amend offer: status is ${offer.status}`);
+    }
+
+    const { task, agent } = offer;
+
+    // Validate Task status using state machine
+    const guard = guardStatus(task.status);
+    guard.assertCanAcceptOffers();
+
+    const priceLamports = input.priceLamports ?? offer.priceLamports;
+    const etaSeconds = input.etaSeconds ?? offer.etaSeconds;
+    const validUntil = input.validUntil === undefined ? offer.validUntil : input.validUntil;
+
+    this.assertPriceWithinLimits(task, priceLamports);
+    this.assertEtaWithinDeadline(task, etaSeconds);
+    this.assertValidUntil(validUntil);
+
+    const score = this.computeOfferScore(task, priceLamports, etaSeconds, agent.reputationScore);
+
+    await this.assertBeatsBestOffer(task, score, offer.id);
+
+    const updated = await prisma.$transaction(async (tx) => {
+      // Only amend the revision we validated, and only while still pending
+      const claimed = await tx.offer.updateMany({
+        where: { id: offerId, status: 'PENDING', revision: offer.revision },
+        data: {
+          priceLamports,
+          etaSeconds,
+          validUntil,
+          score,
+          revision: { increment: 1 },
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictError('Offer changed while being amended, retry');
+      }
+
+      await tx.offerRevision.create({
+        data: {
+          offerId,
+          revision: offer.revision,
+          priceLamports: offer.priceLamports,
+          etaSeconds: offer.etaSeconds,
+          score: offer.score,
+          validUntil: offer.validUntil,
+        },
+      });
+
+      return tx.offer.findUniqueOrThrow({ where: { id: offerId } });
+    });
+
+    logger.info('Offer amended', {
+      offerId,
+      taskId: offer.taskId,
+      agentId,
+      revision: updated.revision,
+      priceLamports: priceLamports.toString(),
+      etaSeconds,
+      score,
+    });
+
+    return updated;
+  }
+
+  /**
+   * List the replaced terms of an Offer, oldest first
+   */
+  async listOfferRevisions(offerId: string): Promise<OfferRevision[]> {
+    return prisma.offerRevision.findMany({
+      where: { offerId },
+      orderBy: { revision: 'asc' },
+    });
+  }
+
+  /**
+   * Mark pending offers past their validUntil as EXPIRED
+   */
+  async expireStaleOffers(taskId: string): Promise<number> {
+    const expired = await prisma.offer.updateMany({
+      where: {
+        taskId,
+        status: 'PENDING',
+        validUntil: { lte: new Date() },
+      },
+      data: { status: 'EXPIRED' },
+    });
+
+    if (expired.count > 0) {
+      logger.info('Offers expired', { taskId, count: expired.count });
+    }
+
+    return expired.count;
+  }
+
+  /**
+   * Validate an offer price against the Task's budget and reserve
+   */
+  private assertPriceWithinLimits(task: Task, priceLamports: bigint): void {
+    if (priceLamports > this.getBudgetPerWinner(task)) {
+      throw new ValidationError(
+        task.winnerCount > 1
+          ? `Offer price (${priceLamports}) exceeds the task budget split across ` +
+            `${task.winnerCount} winners (${this.getBudgetPerWinner(task)})`
+          : `Offer price (${priceLamports}) exceeds task budget (${task.budgetLamports})`
+      );
+    }
+
+    if (task.reservePriceLamports !== null && priceLamports > task.reservePriceLamports) {
+      throw new ValidationError(
+        `Offer price (${priceLamports}) exceeds reserve price (${task.reservePriceLamports})`
+      );
+    }
+  }
+
+  /**
+   * The budget is shared by all winners of a consensus Task
+   */
+  getBudgetPerWinner(task: Task): bigint {
+    return task.budgetLamports / BigInt(Math.max(task.winnerCount, 1));
+  }
+
+  /**
+   * Validate the promised ETA finishes before the Task deadline
+   */
+  private assertEtaWithinDeadline(task: Task, etaSeconds: number): void {
+    if (!task.deadline) {
+      return;
+    }
+
+    const finishAt = new Date(Date.now() + etaSeconds * 1000);
+    if (finishAt > task.deadline) {
+      throw new ValidationError(
+        `ETA of ${etaSeconds}s would overshoot the task deadline (${task.deadline.toISOString()})`
+      );
+    }
+  }
+
+  /**
+   * Validate an offer expiry is in the future
+   */
+  private assertValidUntil(validUntil?: Date | null): void {
+    if (validUntil && validUntil <= new Date()) {
+      throw new ValidationError('validUntil must be in the future');
+    }
+  }
+
+  /**
+   * Reverse English auctions: each bid must beat the current best by the minimum step
+   * (an amended offer is compared against the others, not itself)
+   */
+  private async assertBeatsBestOffer(task: Task, score: number, ownOfferId?: string): Promise<void> {
+    if (task.auctionMode !== 'REVERSE_ENGLISH') {
+      return;
+    }
+
+    const offers = await this.rescorePendingOffers(task);
+    const bestOffer = offers.find(offer => offer.id !== ownOfferId);
+    const minScoreStep = task.minScoreStep ?? config.auction.minScoreStep;
+
+    if (bestOffer && score < bestOffer.score + minScoreStep) {
+      throw new AuctionError(
+        `Offer score (${score}) must beat the current best score (${bestOffer.score}) ` +
+        `by at least ${minScoreStep}`
+      );
+    }
+  }
+
+  /**
+   * Compute offer score for auction ranking using the Task's scoring policy
    */
   computeOfferScore(
+    task: Task,
     priceLamports: bigint,
     etaSeconds: number,
     reputationScore: number
   ): number {
-    const alpha = 1.0;  // Price weight
-    const beta = 0.5;   // ETA weight
-    const gamma = 1.0;  // Reputation weight
-    const base = 100.0;
+    const policy = getScoringPolicy(task.scoringPolicy);
+    const weights = resolveWeights(policy, task.scoringWeights);
+
+    return computeScore(policy, weights, {
+      priceLamports,
+      etaSeconds,
+      reputationScore,
+      budgetLamports: task.budgetLamports,
+      deadline: task.deadline,
+      now: new Date(),
+    });
+  }
+
+  /**
+   * Recompute scores of all pending offers with current reputations
+   *
+   * Reputation moves while an auction runs, so scores are refreshed (and
+   * persisted) before ranking. Returns offers sorted by score, highest first.
+   */
+  async rescorePendingOffers(task: Task): Promise<OfferWithAgent[]> {
+    const offers = await this.getPendingOffersForTask(task.id);
+
+    const rescored = await Promise.all(offers.map(async (offer) => {
+      const score = this.computeOfferScore(
+        task,
+        offer.priceLamports,
+        offer.etaSeconds,
+        offer.agent.reputationScore
+      );
+
+      if (score === offer.score) {
+        return offer;
+      }
+
+      await prisma.offer.update({
+        where: { id: offer.id },
+        data: { score },
+      });
+
+      return { ...offer, score };
+    }));
+
+    return rescored.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Compute the second-price payout for a sealed-bid (Vickrey) winner
+   *
+   * The winner is paid the highest price at which its own offer (same ETA
+   * and reputation) would still have scored at least as well as the runner-up.
+   *
+   * With no runner-up the cap (reserve or budget) is paid.
+   * The result never drops below the winner's own bid nor exceeds the cap.
+   */
+  computeSecondPrice(
+    task: Task,
+    winningOffer: OfferWithAgent,
+    runnerUpOffer: Offer | undefined,
+    capLamports: bigint
+  ): bigint {
+    if (!runnerUpOffer) {
+      return capLamports;
+    }
+
+    const policy = getScoringPolicy(task.scoringPolicy);
+    const weights = resolveWeights(policy, task.scoringWeights);
+
+    return findPriceForScore(
+      policy,
+      weights,
+      {
+        priceLamports: winningOffer.priceLamports,
+        etaSeconds: winningOffer.etaSeconds,
+        reputationScore: winningOffer.agent.reputationScore,
+        budgetLamports: task.budgetLamports,
+        deadline: task.deadline,
+        now: new Date(),
+      },
+      runnerUpOffer.score,
+      winningOffer.priceLamports,
+      capLamports
+    );
+  }
 
-    const normalizedPrice = Math.log(Number(priceLamports) + 1);
-    const normalizedEta = Math.log(etaSeconds + 1);
+  /**
+   * Whether the Task's creator set an instant-award (buy-now) condition
+   */
+  hasBuyNowCondition(task: Task): boolean {
+    return task.buyNowPriceLamports !== null ||
+      task.buyNowMaxEtaSeconds !== null ||
+      task.buyNowMinReputation !== null;
+  }
 
-    const score = base 
-      - (alpha * normalizedPrice) 
-      - (beta * normalizedEta) 
-      + (gamma * reputationScore);
+  /**
+   * Check if an offer meets the Task's instant-award (buy-now) condition
+   * Every threshold the creator set must hold; Tasks without any never match.
+   */
+  meetsBuyNowCondition(task: Task, offer: Offer, reputationScore: number): boolean {
+    if (!this.hasBuyNowCondition(task)) {
+      return false;
+    }
+
+    if (task.buyNowPriceLamports !== null && offer.priceLamports > task.buyNowPriceLamports) {
+      return false;
+    }
 
-    return Math.round(score * 1000) / 1000;
+    if (task.buyNowMaxEtaSeconds !== null && offer.etaSeconds > task.buyNowMaxEtaSeconds) {
+      return false;
+    }
+
+    if (task.buyNowMinReputation !== null && reputationScore < task.buyNowMinReputation) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Whether offers on a Task are currently hidden (sealed-bid auction still open)
+   */
+  isSealed(task: Task): boolean {
+    return task.auctionMode === 'SEALED_SECOND_PRICE' && canAcceptOffers(task.status);
   }
 
   /**
@@ -151,6 +492,49 @@ export class OfferService {
     });
   }
 
+  /**
+   * List offers for a Task as visible to a given user
+   *
+   * While a sealed-bid auction is open, users only see offers
+   * submitted by their own Agents.
+   */
+  async listVisibleOffersForTask(task: Task, userId?: string): Promise<Offer[]> {
+    if (!this.isSealed(task)) {
+      return this.listOffersForTask(task.id);
+    }
+
+    if (!userId) {
+      return [];
+    }
+
+    return prisma.offer.findMany({
+      where: {
+        taskId: task.id,
+        agent: { ownerUserId: userId },
+      },
+      include: {
+        agent: {
+          select: {
+            id: true,
+            name: true,
+            reputationScore: true,
+            capabilities: true,
+          },
+        },
+      },
+      orderBy: { score: 'desc' },
+    });
+  }
+
+  /**
+   * Count all offers for a Task
+   */
+  async countOffersForTask(taskId: string): Promise<number> {
+    return prisma.offer.count({
+      where: { taskId },
+    });
+  }
+
   /**
    * Get offer by ID
    */
@@ -190,7 +574,9 @@ export class OfferService {
   /**
    * Get pending offers for a Task, sorted by score (highest first)
    */
-  async getPendingOffersForTask(taskId: string): Promise<Offer[]> {
+  async getPendingOffersForTask(taskId: string): Promise<OfferWithAgent[]> {
+    await this.expireStaleOffers(taskId);
+
     return prisma.offer.findMany({
       where: {
         taskId,
@@ -204,14 +590,59 @@ export class OfferService {
   }
 
   /**
-   * Reject all pending offers for a Task except the winner
+   * Reject all pending offers for a Task except the winner(s)
    */
-  async rejectOffersExcept(taskId: string, winnerOfferId: string): Promise<void> {
+  async rejectOffersExcept(taskId: string, winnerOfferIds: string[]): Promise<void> {
+    await prisma.offer.updateMany({
+      where: {
+        taskId,
+        status: 'PENDING',
+        id: { notIn: winnerOfferIds },
+      },
+      data: { status: 'REJECTED' },
+    });
+  }
+
+  /**
+   * Find the best losing offer that could still take over an assigned Task
+   *
+   * The Agent must still be active, capable and eligible, must not be
+   * excluded (e.g. already had its turn on the Task), the offer must not
+   * have lapsed, and the price must still fit the Task's budget and reserve.
+   */
+  async findRunnerUpOffer(task: Task, excludedAgentIds: string[]): Promise<OfferWithAgent | null> {
+    const offers = await prisma.offer.findMany({
+      where: {
+        taskId: task.id,
+        status: 'REJECTED',
+        agentId: { notIn: excludedAgentIds },
+        OR: [{ validUntil: null }, { validUntil: { gt: new Date() } }],
+      },
+      include: {
+        agent: true,
+      },
+      orderBy: { score: 'desc' },
+    });
+
+    const runnerUp = offers.find(offer =>
+      offer.agent.isActive &&
+      agentService.hasRequiredCapabilities(offer.agent, task.requiredCapabilities) &&
+      agentService.isEligibleForTask(offer.agent, task) &&
+      offer.priceLamports <= this.getBudgetPerWinner(task) &&
+      (task.reservePriceLamports === null || offer.priceLamports <= task.reservePriceLamports)
+    );
+
+    return runnerUp ?? null;
+  }
+
+  /**
+   * Reject all pending offers for a Task (no winner)
+   */
+  async rejectPendingOffers(taskId: string): Promise<void> {
     await prisma.offer.updateMany({
       where: {
         taskId,
         status: 'PENDING',
-        id: { not: winnerOfferId },
       },
       data: { status: 'REJECTED' },
     });
@@ -221,6 +652,8 @@ export class OfferService {
    * Get best current offer for a Task
    */
   async getBestOfferForTask(taskId: string): Promise<Offer | null> {
+    await this.expireStaleOffers(taskId);
+
     return prisma.offer.findFirst({
       where: {
         taskId,
@@ -1,14 +1,24 @@
-import { Payment, PaymentStatus } from '@prisma/client';
+import { Payment, PaymentStatus, Refund } from '@prisma/client';
 import prisma from '../utils/prisma.js';
-import { NotFoundError, ConflictError } from '../utils/errors.js';
+import { NotFoundError, ConflictError, ValidationError } from '../utils/errors.js';
 import logger from '../utils/logger.js';
 import { createSolanaClient, getExplorerUrl } from '../solana/index.js';
-import type { SolanaClient } from '../solana/index.js';
+import type { SolanaClient, PreparedTransaction } from '../solana/index.js';
+import { config } from '../config/index.js';
+import { escrowService } from './EscrowService.js';
+import { ledgerService } from './LedgerService.js';
+import { payoutService } from './PayoutService.js';
+
+// A refund still unsigned this long after it was created is failed
+const UNSIGNED_REFUND_MS = 60 * 1000;
 
 /**
  * PaymentService - Manages payments for completed Tasks
  * 
  * Uses SolanaClient for real or simulated transactions based on config.
+ * A payment's amount is released from the escrow; the Agent is sent it less
+ * the protocol fee (LEDGER_PROTOCOL_FEE_BPS). Both legs are posted to the ledger.
+ * Transfers to Agents go through PayoutService, which tracks them until final.
  */
 export class PaymentService {
   private solanaClient: SolanaClient;
@@ -18,23 +28,78 @@ export class PaymentService {
   }
 
   /**
-   * Create a pending payment for a completed Task
+   * Create a pending payment for a completed Task, or an approved milestone
+   * Results under review or in dispute are not paid until accepted.
    */
   async createPendingPayment(
     taskId: string,
     agentId: string,
     amountLamports: bigint,
-    tokenSymbol: string
+    tokenSymbol: string,
+    payerAgentId?: string | null,
+    milestoneId?: string
   ): Promise<Payment> {
-    const payment = await prisma.payment.create({
-      data: {
-        taskId,
-        agentId,
-        amountLamports,
+    if (amountLamports <= 0n) {
+      throw new ValidationError('Payment amount must be greater than 0');
+    }
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { status: true },
+    });
+
+    if (!task) {
+      throw new NotFoundError('Task', taskId);
+    }
+
+    if (milestoneId) {
+      const milestone = await prisma.milestone.findUnique({
+        where: { id: milestoneId },
+        select: { taskId: true, status: true },
+      });
+
+      if (!milestone || milestone.taskId !== taskId) {
+        throw new NotFoundError('Milestone', milestoneId);
+      }
+
+      if (milestone.status !== 'APPROVED') {
+        throw new ConflictError(`Cannot create payment: milestone is ${milestone.status}, not APPROVED`);
+      }
+    } else if (task.status !== 'COMPLETED') {
+      throw new ConflictError(`Cannot create payment: Task is ${task.status}, not COMPLETED`);
+    }
+
+    const feeLamports = (amountLamports * BigInt(config.ledger.protocolFeeBps)) / 10000n;
+
+    const payment = await prisma.$transaction(async (tx) => {
+      const payment = await tx.payment.create({
+        data: {
+          taskId,
+          agentId,
+          amountLamports,
+          feeLamports,
+          tokenSymbol,
+          payerAgentId,
+          milestoneId,
+          status: 'PENDING',
+          chain: 'solana',
+        },
+      });
+
+      // Paid from the creator's escrow (the root Task's, for shards and subtasks)
+      await escrowService.release(tx, payment);
+
+      await ledgerService.transfer(tx, {
+        kind: 'FEE',
         tokenSymbol,
-        status: 'PENDING',
-        chain: 'solana',
-      },
+        taskId,
+        paymentId: payment.id,
+        from: { type: 'AGENT_PAYABLE', ownerId: agentId },
+        to: { type: 'PROTOCOL_FEES' },
+        amountLamports: feeLamports,
+      });
+
+      return payment;
     });
 
     logger.info('Payment created (pending)', {
@@ -42,23 +107,23 @@ export class PaymentService {
       taskId,
       agentId,
       amountLamports: amountLamports.toString(),
+      feeLamports: feeLamports.toString(),
       tokenSymbol,
+      payerAgentId,
+      milestoneId,
     });
 
     return payment;
   }
 
   /**
-   * Settle a pending payment
-   * 
-   * Sends real or simulated transaction based on configuration
+   * Settle a pending payment now, in a payout batch of its own
+   * The payment comes back SUBMITTED (or still PENDING if the transaction
+   * couldn't be signed); PayoutService follows it until it is COMPLETED.
    */
   async settlePayment(paymentId: string): Promise<Payment> {
     const payment = await prisma.payment.findUnique({
       where: { id: paymentId },
-      include: {
-        agent: true,
-      },
     });
 
     if (!payment) {
@@ -69,43 +134,67 @@ export class PaymentService {
       throw new ConflictError(`Cannot settle payment: status is ${payment.status}`);
     }
 
-    try {
-      // Send payment via Solana client (real or simulated)
-      const { txHash } = await this.solanaClient.sendPayment({
-        toPubkey: payment.agent.walletAddress,
-        amountLamports: payment.amountLamports,
-        tokenMint: payment.tokenSymbol === 'SOL' ? undefined : payment.tokenSymbol,
-      });
+    if (payment.payoutBatchId) {
+      throw new ConflictError('Cannot settle payment: it is being paid out in a batch');
+    }
 
-      // Update payment status
-      const updatedPayment = await prisma.payment.update({
-        where: { id: paymentId },
-        data: {
-          status: 'COMPLETED',
-          txHash,
+    const batch = await payoutService.sendPayments(payment.tokenSymbol, [paymentId]);
+
+    if (!batch) {
+      throw new ConflictError('Payment changed while being settled');
+    }
+
+    return this.getPaymentById(paymentId);
+  }
+
+  /**
+   * Settle a FAILED payment again
+   * Only payments whose every settlement attempt failed or expired are retried:
+   * none of those transactions can still land, so the Agent can't be paid twice.
+   */
+  async retryPayment(paymentId: string): Promise<Payment> {
+    const payment = await prisma.payment.findUnique({
+      where: { id: paymentId },
+      include: {
+        payoutBatch: {
+          include: { attempts: true },
         },
-      });
+      },
+    });
 
-      logger.info('Payment settled', {
-        paymentId,
-        txHash,
-        explorerUrl: getExplorerUrl(txHash),
-        amountLamports: payment.amountLamports.toString(),
-      });
+    if (!payment) {
+      throw new NotFoundError('Payment', paymentId);
+    }
 
-      return updatedPayment;
+    if (payment.status !== 'FAILED') {
+      throw new ConflictError(`Cannot retry payment: status is ${payment.status}`);
+    }
 
-    } catch (error) {
-      // Mark payment as failed
-      const failedPayment = await prisma.payment.update({
-        where: { id: paymentId },
-        data: { status: 'FAILED' },
-      });
+    const attempts = payment.payoutBatch?.attempts ?? [];
+    if (
+      attempts.length === 0 ||
+      attempts.some(attempt => attempt.status !== 'EXPIRED' && attempt.status !== 'FAILED')
+    ) {
+      throw new ConflictError('Cannot retry payment: its transfer may have landed, check it on-chain first');
+    }
 
-      logger.error('Payment settlement failed', error as Error);
+    // Back to PENDING, out of its failed batch
+    const claimed = await prisma.payment.updateMany({
+      where: { id: paymentId, status: 'FAILED', payoutBatchId: payment.payoutBatchId },
+      data: { status: 'PENDING', payoutBatchId: null },
+    });
 
-      throw error;
+    if (claimed.count === 0) {
+      throw new ConflictError('Payment changed while being retried');
     }
+
+    logger.info('Payment retried', {
+      paymentId,
+      failedBatchId: payment.payoutBatchId,
+      attempts: attempts.length,
+    });
+
+    return this.settlePayment(paymentId);
   }
 
   /**
@@ -121,6 +210,9 @@ export class PaymentService {
         agent: {
           select: { id: true, name: true, walletAddress: true },
         },
+        refunds: {
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
 
@@ -176,24 +268,279 @@ export class PaymentService {
   }
 
   /**
-   * Refund a payment (mark as refunded - actual refund would need implementation)
+   * Refund a payment (dispute verdicts, or platform admins)
+   * A PENDING payment was never sent: it is withdrawn in full and its amount
+   * goes back to the escrow (or the creator's balance once settled).
+   * A COMPLETED payment is refunded in full or in part from the treasury to
+   * the creator's registered wallet (SENDING until the transfer is finalized,
+   * see confirmRefunds); without one, the refund is credited the same way as
+   * a withdrawal. Each refund is recorded with its reason and txHash.
    */
-  async refundPayment(paymentId: string): Promise<Payment> {
+  async refundPayment(paymentId: string, reason: string, amountLamports?: bigint): Promise<Payment> {
     const payment = await this.getPaymentById(paymentId);
 
-    if (payment.status !== 'COMPLETED') {
+    if (payment.status !== 'PENDING' && payment.status !== 'COMPLETED') {
       throw new ConflictError(`Cannot refund payment: status is ${payment.status}`);
     }
 
-    // Note: In production, you'd implement actual refund transaction here
-    const updatedPayment = await prisma.payment.update({
-      where: { id: paymentId },
-      data: { status: 'REFUNDED' },
+    const refundableLamports = payment.amountLamports - payment.refundedLamports;
+    const refundLamports = amountLamports ?? refundableLamports;
+
+    if (refundLamports <= 0n || refundLamports > refundableLamports) {
+      throw new ValidationError(
+        `Refund amount must be between 1 and ${refundableLamports} (what is left of the payment)`
+      );
+    }
+
+    if (payment.status === 'PENDING' && refundLamports !== payment.amountLamports) {
+      throw new ValidationError('A pending payment can only be refunded in full');
+    }
+
+    // The protocol gives back its fee in proportion
+    const feeLamports = (payment.feeLamports * refundLamports) / payment.amountLamports;
+    const fullyRefunded = refundLamports === refundableLamports;
+
+    // Claim the amount so a concurrent settlement or refund can't pay it out too
+    // Pending payments already claimed by a payout batch are on their way
+    const claimed = await prisma.payment.updateMany({
+      where: {
+        id: paymentId,
+        status: payment.status,
+        refundedLamports: payment.refundedLamports,
+        ...(payment.status === 'PENDING' ? { payoutBatchId: null } : {}),
+      },
+      data: {
+        refundedLamports: { increment: refundLamports },
+        status: fullyRefunded ? 'REFUNDED' : payment.status,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Payment changed while being refunded');
+    }
+
+    const task = await prisma.task.findUniqueOrThrow({
+      where: { id: payment.taskId },
+      select: { createdByUser: { select: { id: true, walletAddress: true } } },
     });
+    const creator = task.createdByUser;
+    const walletAddress = payment.status === 'COMPLETED' ? creator.walletAddress : null;
 
-    logger.info('Payment refunded', { paymentId });
+    const refund = await prisma.refund.create({
+      data: {
+        paymentId,
+        paymentStatus: payment.status,
+        userId: creator.id,
+        amountLamports: refundLamports,
+        feeLamports,
+        tokenSymbol: payment.tokenSymbol,
+        reason,
+        walletAddress,
+        status: walletAddress ? 'SENDING' : 'CREDITED',
+      },
+    });
 
-    return updatedPayment;
+    if (walletAddress) {
+      await this.sendRefund(payment, refund, walletAddress);
+    } else {
+      await escrowService.reclaim(payment, refundLamports, feeLamports);
+    }
+
+    logger.info('Payment refunded', {
+      paymentId,
+      refundId: refund.id,
+      previousStatus: payment.status,
+      amountLamports: refundLamports.toString(),
+      fullyRefunded,
+      walletAddress,
+      reason,
+    });
+
+    return this.getPaymentById(paymentId);
+  }
+
+  /**
+   * Send a refund from the treasury to the creator's wallet
+   * The signed transfer is recorded before it is broadcast; the refund stays
+   * SENDING until confirmRefunds() sees it finalized or expired. If it can't
+   * even be signed, the claimed amount is released so it can be retried.
+   */
+  private async sendRefund(payment: Payment, refund: Refund, walletAddress: string): Promise<void> {
+    let prepared: PreparedTransaction;
+
+    try {
+      prepared = await this.solanaClient.preparePayment({
+        transfers: [{ toPubkey: walletAddress, amountLamports: refund.amountLamports }],
+        tokenMint: refund.tokenSymbol === 'SOL' ? undefined : refund.tokenSymbol,
+      });
+    } catch (error) {
+      await this.failRefund(refund, (error as Error).message);
+      throw error;
+    }
+
+    // Recorded first: whatever happens to the broadcast, the confirmer knows what to look for
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: {
+        signature: prepared.signature,
+        blockhash: prepared.blockhash,
+        lastValidBlockHeight: BigInt(prepared.lastValidBlockHeight),
+      },
+    });
+
+    try {
+      await this.solanaClient.broadcastTransaction(prepared.rawTransaction);
+    } catch (error) {
+      // It may have reached the cluster anyway: the confirmer finds it, or expires it
+      logger.warn('Refund broadcast failed', {
+        refundId: refund.id,
+        signature: prepared.signature,
+        error: (error as Error).message,
+      });
+
+      await prisma.refund.update({
+        where: { id: refund.id },
+        data: { error: (error as Error).message },
+      });
+    }
+
+    logger.info('Refund submitted', {
+      refundId: refund.id,
+      paymentId: payment.id,
+      signature: prepared.signature,
+      explorerUrl: getExplorerUrl(prepared.signature),
+      amountLamports: refund.amountLamports.toString(),
+    });
+  }
+
+  /**
+   * Follow refunds in flight until their transfer finalizes, fails or expires
+   * A refund that can no longer land is FAILED and its payment restored.
+   */
+  async confirmRefunds(): Promise<void> {
+    // Never signed (the process stopped before): nothing was sent
+    const unsigned = await prisma.refund.findMany({
+      where: {
+        status: 'SENDING',
+        signature: null,
+        createdAt: { lt: new Date(Date.now() - UNSIGNED_REFUND_MS) },
+      },
+    });
+    for (const refund of unsigned) {
+      await this.failRefund(refund, 'Transfer was never signed');
+    }
+
+    const refunds = await prisma.refund.findMany({
+      where: { status: 'SENDING', signature: { not: null } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (refunds.length === 0) {
+      return;
+    }
+
+    // Read before the statuses: a transfer still not found once this height
+    // passed its last valid block height can never land
+    const blockHeight = BigInt(await this.solanaClient.getBlockHeight());
+
+    for (const refund of refunds) {
+      try {
+        const { status, error } = await this.solanaClient.getTransactionStatus(refund.signature!);
+
+        if (status === 'FINALIZED') {
+          await this.finalizeRefund(refund);
+        } else if (status === 'FAILED') {
+          await this.failRefund(refund, error ?? 'Transaction failed');
+        } else if (blockHeight > refund.lastValidBlockHeight!) {
+          await this.failRefund(refund, 'Blockhash expired before the transaction landed');
+        }
+      } catch (error) {
+        logger.error(`Failed to check refund ${refund.id}`, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Mark a finalized refund SENT and post it to the ledger
+   */
+  private async finalizeRefund(refund: Refund): Promise<void> {
+    const txHash = refund.signature!;
+
+    const sent = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.refund.updateMany({
+        where: { id: refund.id, status: 'SENDING' },
+        data: { status: 'SENT', txHash, error: null },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: { id: refund.paymentId },
+      });
+
+      // The Agent was paid already: it now owes the refund (negative payable)
+      await ledgerService.post(tx, {
+        kind: 'REFUND',
+        tokenSymbol: refund.tokenSymbol,
+        taskId: payment.taskId,
+        paymentId: payment.id,
+        memo: txHash,
+        lines: [
+          {
+            account: { type: 'AGENT_PAYABLE', ownerId: payment.agentId },
+            side: 'DEBIT',
+            amountLamports: refund.amountLamports - refund.feeLamports,
+          },
+          { account: { type: 'PROTOCOL_FEES' }, side: 'DEBIT', amountLamports: refund.feeLamports },
+          { account: { type: 'TREASURY' }, side: 'CREDIT', amountLamports: refund.amountLamports },
+        ],
+      });
+
+      return true;
+    });
+
+    if (sent) {
+      logger.info('Refund sent', {
+        refundId: refund.id,
+        paymentId: refund.paymentId,
+        txHash,
+        explorerUrl: getExplorerUrl(txHash),
+        amountLamports: refund.amountLamports.toString(),
+      });
+    }
+  }
+
+  /**
+   * Mark a refund that moved nothing FAILED, and give the payment back its
+   * claimed amount and previous status so the refund can be retried
+   */
+  private async failRefund(refund: Refund, error: string): Promise<void> {
+    const failed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.refund.updateMany({
+        where: { id: refund.id, status: 'SENDING' },
+        data: { status: 'FAILED', error },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      await tx.payment.update({
+        where: { id: refund.paymentId },
+        data: {
+          refundedLamports: { decrement: refund.amountLamports },
+          status: refund.paymentStatus,
+        },
+      });
+
+      return true;
+    });
+
+    if (failed) {
+      logger.warn('Refund failed', { refundId: refund.id, paymentId: refund.paymentId, error });
+    }
   }
 
   /**
@@ -201,6 +548,7 @@ export class PaymentService {
    */
   async getAgentPaymentStats(agentId: string): Promise<{
     totalEarned: bigint;
+    pendingEarned: bigint;
     pendingPayments: number;
     completedPayments: number;
   }> {
@@ -209,15 +557,25 @@ export class PaymentService {
     });
 
     const completed = payments.filter(p => p.status === 'COMPLETED');
-    const pending = payments.filter(p => p.status === 'PENDING');
+    const pending = payments.filter(p => ['PENDING', 'SUBMITTED', 'CONFIRMED'].includes(p.status));
 
+    // Net of fees and of what was refunded to creators (fee share included)
+    // Zero-amount rows (recorded before they were refused) earned nothing
     const totalEarned = completed.reduce(
-      (sum, p) => sum + p.amountLamports,
+      (sum, p) => p.amountLamports === 0n ? sum : sum + p.amountLamports - p.feeLamports -
+        (p.refundedLamports - (p.feeLamports * p.refundedLamports) / p.amountLamports),
+      BigInt(0)
+    );
+
+    // Owed at the awarded price, not transferred for good yet
+    const pendingEarned = pending.reduce(
+      (sum, p) => sum + p.amountLamports - p.feeLamports,
       BigInt(0)
     );
 
     return {
       totalEarned,
+      pendingEarned,
       pendingPayments: pending.length,
       completedPayments: completed.length,
     };
@@ -0,0 +1,566 @@
+import { EventEmitter } from 'events';
+import { Payment, PayoutBatch, SettlementAttempt } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { config } from '../config/index.js';
+import { createSolanaClient, getExplorerUrl } from '../solana/index.js';
+import type { SolanaClient, PreparedTransaction } from '../solana/index.js';
+import { ledgerService } from './LedgerService.js';
+
+type BatchPayment = Payment & { agent: { walletAddress: string } };
+
+interface WalletPayouts {
+  tokenSymbol: string;
+  walletAddress: string;
+  payments: BatchPayment[];
+  amountLamports: bigint; // net of fees
+  oldestAt: Date;
+}
+
+// A batch left without an open attempt this long is resumed
+const STALLED_BATCH_MS = 60 * 1000;
+
+/**
+ * PayoutService - Batched payouts of pending payments
+ *
+ * Pending payments are grouped per Agent wallet and token. A group is due
+ * once its oldest payment waited PAYOUT_BATCH_INTERVAL_MS, or once it adds up
+ * to PAYOUT_MIN_BATCH_LAMPORTS. Due groups of the same token are sent
+ * together: one transfer per wallet, up to PAYOUT_MAX_TRANSFERS_PER_TX
+ * transfers per transaction. Each transaction is a PayoutBatch recording the
+ * payments it settles.
+ *
+ * A batch is settled through SettlementAttempts. Each attempt is a signed
+ * transaction whose signature, blockhash and last valid block height are
+ * recorded before it is broadcast. confirmSettlements() then follows every
+ * open attempt: CONFIRMED, then FINALIZED (payments COMPLETED). An attempt
+ * that failed on-chain, or that never landed before its blockhash expired,
+ * can no longer transfer anything, and only then is a new one signed
+ * (up to PAYOUT_MAX_ATTEMPTS). A batch never has two open attempts, so
+ * its payments can't be paid twice.
+ *
+ * Events emitted:
+ * - 'payouts:submitted' - when an attempt was broadcast (with the batch payments, now SUBMITTED)
+ * - 'payouts:confirmed' - when an attempt was confirmed (with its payments, now CONFIRMED)
+ * - 'payouts:finalized' - when an attempt was finalized (with its payments, now COMPLETED)
+ * - 'payouts:failed' - when a batch ran out of attempts (with its payments, now FAILED)
+ */
+export class PayoutService extends EventEmitter {
+  private solanaClient: SolanaClient;
+  private running = false;
+  private confirming = false;
+
+  constructor() {
+    super();
+    this.solanaClient = createSolanaClient();
+  }
+
+  /**
+   * Pay out the pending payments that are due
+   * With force, every pending payment is due. Skipped while a run is in progress.
+   */
+  async runPayouts(options: { force?: boolean } = {}): Promise<PayoutBatch[]> {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const due = await this.findDueWallets(options.force ?? false);
+      const batches: PayoutBatch[] = [];
+
+      const tokenSymbols = [...new Set(due.map(wallet => wallet.tokenSymbol))];
+      for (const tokenSymbol of tokenSymbols) {
+        const wallets = due.filter(wallet => wallet.tokenSymbol === tokenSymbol);
+
+        for (let start = 0; start < wallets.length; start += config.payouts.maxTransfersPerTx) {
+          const batch = await this.sendPayments(
+            tokenSymbol,
+            wallets
+              .slice(start, start + config.payouts.maxTransfersPerTx)
+              .flatMap(wallet => wallet.payments.map(payment => payment.id))
+          );
+          if (batch) {
+            batches.push(batch);
+          }
+        }
+      }
+
+      return batches;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Claim pending payments of one token and submit them in one transaction
+   * Returns null if every payment was settled, refunded or batched meanwhile.
+   */
+  async sendPayments(tokenSymbol: string, paymentIds: string[]): Promise<PayoutBatch | null> {
+    const batch = await prisma.payoutBatch.create({
+      data: { tokenSymbol },
+    });
+
+    // Claim the payments so a concurrent refund or settlement can't take them too
+    await prisma.payment.updateMany({
+      where: {
+        id: { in: paymentIds },
+        tokenSymbol,
+        status: 'PENDING',
+        payoutBatchId: null,
+      },
+      data: { payoutBatchId: batch.id },
+    });
+
+    const payments = await prisma.payment.findMany({
+      where: { payoutBatchId: batch.id },
+      include: { agent: { select: { walletAddress: true } } },
+    });
+
+    if (payments.length === 0) {
+      await prisma.payoutBatch.delete({ where: { id: batch.id } });
+      return null;
+    }
+
+    const transfers = this.buildTransfers(payments);
+
+    const claimed = await prisma.payoutBatch.update({
+      where: { id: batch.id },
+      data: {
+        totalLamports: [...transfers.values()].reduce((sum, amount) => sum + amount, 0n),
+        transferCount: transfers.size,
+      },
+    });
+
+    return this.submitAttempt(claimed);
+  }
+
+  /**
+   * Follow the open settlement attempts until they finalize, fail or expire
+   * Failed and expired attempts are retried; batches left without an open
+   * attempt (the process stopped mid-way) are resumed. Skipped while a run
+   * is in progress.
+   */
+  async confirmSettlements(): Promise<void> {
+    if (this.confirming) {
+      return;
+    }
+
+    this.confirming = true;
+    try {
+      const attempts = await prisma.settlementAttempt.findMany({
+        where: { status: { in: ['SUBMITTED', 'CONFIRMED'] } },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      if (attempts.length > 0) {
+        // Read before the statuses: an attempt still not found once this
+        // height passed its last valid block height can never land
+        const blockHeight = BigInt(await this.solanaClient.getBlockHeight());
+
+        for (const attempt of attempts) {
+          try {
+            await this.checkAttempt(attempt, blockHeight);
+          } catch (error) {
+            logger.error(`Failed to check settlement attempt ${attempt.id}`, error as Error);
+          }
+        }
+      }
+
+      await this.resumeStalledBatches();
+    } finally {
+      this.confirming = false;
+    }
+  }
+
+  /**
+   * List payout batches, newest first
+   */
+  async listBatches(limit = 50): Promise<PayoutBatch[]> {
+    return prisma.payoutBatch.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a payout batch with its payments and settlement attempts
+   */
+  async getBatchById(
+    id: string
+  ): Promise<PayoutBatch & { payments: Payment[]; attempts: SettlementAttempt[] }> {
+    const batch = await prisma.payoutBatch.findUnique({
+      where: { id },
+      include: {
+        payments: { orderBy: { createdAt: 'asc' } },
+        attempts: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!batch) {
+      throw new NotFoundError('PayoutBatch', id);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Group unbatched pending payments per wallet and token, keeping those due
+   */
+  private async findDueWallets(force: boolean): Promise<WalletPayouts[]> {
+    const payments = await prisma.payment.findMany({
+      where: { status: 'PENDING', payoutBatchId: null },
+      include: { agent: { select: { walletAddress: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const wallets = new Map<string, WalletPayouts>();
+    for (const payment of payments) {
+      const key = `${payment.tokenSymbol}:${payment.agent.walletAddress}`;
+      const wallet = wallets.get(key) ?? {
+        tokenSymbol: payment.tokenSymbol,
+        walletAddress: payment.agent.walletAddress,
+        payments: [],
+        amountLamports: 0n,
+        oldestAt: payment.createdAt,
+      };
+
+      wallet.payments.push(payment);
+      wallet.amountLamports += payment.amountLamports - payment.feeLamports;
+      wallets.set(key, wallet);
+    }
+
+    const now = Date.now();
+    return [...wallets.values()].filter(wallet =>
+      force ||
+      wallet.amountLamports >= config.payouts.minBatchLamports ||
+      now - wallet.oldestAt.getTime() >= config.payouts.batchIntervalMs
+    );
+  }
+
+  /**
+   * Net amount to send per Agent wallet (one transfer each)
+   */
+  private buildTransfers(payments: BatchPayment[]): Map<string, bigint> {
+    const transfers = new Map<string, bigint>();
+    for (const payment of payments) {
+      transfers.set(
+        payment.agent.walletAddress,
+        (transfers.get(payment.agent.walletAddress) ?? 0n) + payment.amountLamports - payment.feeLamports
+      );
+    }
+    return transfers;
+  }
+
+  /**
+   * Sign a transaction for the batch, record it as an attempt, then broadcast it
+   * Only called while the batch has no open attempt. If signing fails nothing
+   * was sent: the batch is left as it was and resumed by a later sweep.
+   */
+  private async submitAttempt(batch: PayoutBatch): Promise<PayoutBatch> {
+    const payments = await prisma.payment.findMany({
+      where: { payoutBatchId: batch.id },
+      include: { agent: { select: { walletAddress: true } } },
+    });
+    const transfers = this.buildTransfers(payments);
+
+    let prepared: PreparedTransaction;
+    try {
+      prepared = await this.solanaClient.preparePayment({
+        transfers: [...transfers].map(([toPubkey, amountLamports]) => ({ toPubkey, amountLamports })),
+        tokenMint: batch.tokenSymbol === 'SOL' ? undefined : batch.tokenSymbol,
+      });
+    } catch (error) {
+      logger.error(`Failed to prepare payout batch ${batch.id}`, error as Error);
+
+      return prisma.payoutBatch.update({
+        where: { id: batch.id },
+        data: { error: (error as Error).message },
+      });
+    }
+
+    // Recorded first: whatever happens to the broadcast, the confirmer knows what to look for
+    const submitted = await prisma.$transaction(async (tx) => {
+      await tx.settlementAttempt.create({
+        data: {
+          payoutBatchId: batch.id,
+          signature: prepared.signature,
+          blockhash: prepared.blockhash,
+          lastValidBlockHeight: BigInt(prepared.lastValidBlockHeight),
+        },
+      });
+
+      await tx.payment.updateMany({
+        where: { payoutBatchId: batch.id },
+        data: { status: 'SUBMITTED' },
+      });
+
+      return tx.payoutBatch.update({
+        where: { id: batch.id },
+        data: { status: 'SUBMITTED', error: null },
+      });
+    });
+
+    try {
+      await this.solanaClient.broadcastTransaction(prepared.rawTransaction);
+    } catch (error) {
+      // It may have reached the cluster anyway: the confirmer finds it, or expires the attempt
+      logger.warn('Payout transaction broadcast failed', {
+        batchId: batch.id,
+        signature: prepared.signature,
+        error: (error as Error).message,
+      });
+
+      await prisma.settlementAttempt.update({
+        where: { signature: prepared.signature },
+        data: { error: (error as Error).message },
+      });
+    }
+
+    logger.info('Payout batch submitted', {
+      batchId: batch.id,
+      signature: prepared.signature,
+      explorerUrl: getExplorerUrl(prepared.signature),
+      tokenSymbol: batch.tokenSymbol,
+      transfers: transfers.size,
+      payments: payments.length,
+      totalLamports: batch.totalLamports.toString(),
+      lastValidBlockHeight: prepared.lastValidBlockHeight,
+    });
+
+    this.emit('payouts:submitted', {
+      batch: submitted,
+      payments: payments.map(({ agent: _agent, ...payment }) => ({ ...payment, status: 'SUBMITTED' as const })),
+    });
+
+    return submitted;
+  }
+
+  /**
+   * Move an open attempt on according to its on-chain status
+   */
+  private async checkAttempt(attempt: SettlementAttempt, blockHeight: bigint): Promise<void> {
+    const { status, error } = await this.solanaClient.getTransactionStatus(attempt.signature);
+
+    switch (status) {
+      case 'FINALIZED':
+        await this.finalizeAttempt(attempt);
+        break;
+      case 'CONFIRMED':
+        if (attempt.status === 'SUBMITTED') {
+          await this.confirmAttempt(attempt);
+        }
+        break;
+      case 'FAILED':
+        await this.closeAttempt(attempt, 'FAILED', error ?? 'Transaction failed');
+        break;
+      default:
+        if (blockHeight > attempt.lastValidBlockHeight) {
+          await this.closeAttempt(attempt, 'EXPIRED', 'Blockhash expired before the transaction landed');
+        }
+    }
+  }
+
+  /**
+   * Mark a confirmed attempt, its batch and its payments CONFIRMED
+   */
+  private async confirmAttempt(attempt: SettlementAttempt): Promise<void> {
+    const confirmed = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.settlementAttempt.updateMany({
+        where: { id: attempt.id, status: 'SUBMITTED' },
+        data: { status: 'CONFIRMED', confirmedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.payment.updateMany({
+        where: { payoutBatchId: attempt.payoutBatchId },
+        data: { status: 'CONFIRMED' },
+      });
+
+      const batch = await tx.payoutBatch.update({
+        where: { id: attempt.payoutBatchId },
+        data: { status: 'CONFIRMED' },
+      });
+
+      const payments = await tx.payment.findMany({
+        where: { payoutBatchId: attempt.payoutBatchId },
+      });
+
+      return { batch, payments };
+    });
+
+    if (confirmed) {
+      this.emit('payouts:confirmed', confirmed);
+    }
+  }
+
+  /**
+   * Settle a finalized attempt: its payments are COMPLETED and posted to the ledger
+   */
+  private async finalizeAttempt(attempt: SettlementAttempt): Promise<void> {
+    const txHash = attempt.signature;
+
+    const finalized = await prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const claimed = await tx.settlementAttempt.updateMany({
+        where: { id: attempt.id, status: { in: ['SUBMITTED', 'CONFIRMED'] } },
+        data: { status: 'FINALIZED', confirmedAt: attempt.confirmedAt ?? now, finalizedAt: now },
+      });
+
+      if (claimed.count === 0) {
+        return null;
+      }
+
+      await tx.payment.updateMany({
+        where: { payoutBatchId: attempt.payoutBatchId },
+        data: { status: 'COMPLETED', txHash },
+      });
+
+      const payments = await tx.payment.findMany({
+        where: { payoutBatchId: attempt.payoutBatchId },
+      });
+
+      for (const payment of payments) {
+        await ledgerService.transfer(tx, {
+          kind: 'PAYOUT',
+          tokenSymbol: payment.tokenSymbol,
+          taskId: payment.taskId,
+          paymentId: payment.id,
+          from: { type: 'AGENT_PAYABLE', ownerId: payment.agentId },
+          to: { type: 'TREASURY' },
+          amountLamports: payment.amountLamports - payment.feeLamports,
+          memo: txHash,
+        });
+      }
+
+      const batch = await tx.payoutBatch.update({
+        where: { id: attempt.payoutBatchId },
+        data: { status: 'FINALIZED', txHash, error: null, finalizedAt: now },
+      });
+
+      return { batch, payments };
+    });
+
+    if (!finalized) {
+      return;
+    }
+
+    logger.info('Payout batch finalized', {
+      batchId: finalized.batch.id,
+      txHash,
+      explorerUrl: getExplorerUrl(txHash),
+      payments: finalized.payments.length,
+      totalLamports: finalized.batch.totalLamports.toString(),
+    });
+
+    this.emit('payouts:finalized', finalized);
+  }
+
+  /**
+   * Close an attempt that can no longer land, then retry its batch
+   */
+  private async closeAttempt(
+    attempt: SettlementAttempt,
+    status: 'EXPIRED' | 'FAILED',
+    error: string
+  ): Promise<void> {
+    // Claimed so that only one confirmer retries the batch
+    const claimed = await prisma.settlementAttempt.updateMany({
+      where: { id: attempt.id, status: { in: ['SUBMITTED', 'CONFIRMED'] } },
+      data: { status, error },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    logger.warn(`Settlement attempt ${status.toLowerCase()}`, {
+      attemptId: attempt.id,
+      batchId: attempt.payoutBatchId,
+      signature: attempt.signature,
+      error,
+    });
+
+    await this.retryBatch(attempt.payoutBatchId, error);
+  }
+
+  /**
+   * Submit a new attempt for a batch without an open one, or fail it once out of attempts
+   */
+  private async retryBatch(batchId: string, lastError: string | null): Promise<void> {
+    const batch = await prisma.payoutBatch.findUniqueOrThrow({
+      where: { id: batchId },
+      include: { _count: { select: { attempts: true } } },
+    });
+    const { _count, ...payoutBatch } = batch;
+
+    if (_count.attempts < config.payouts.maxAttempts) {
+      await this.submitAttempt(payoutBatch);
+      return;
+    }
+
+    const failed = await prisma.$transaction(async (tx) => {
+      await tx.payment.updateMany({
+        where: { payoutBatchId: batchId },
+        data: { status: 'FAILED' },
+      });
+
+      const failedBatch = await tx.payoutBatch.update({
+        where: { id: batchId },
+        data: {
+          status: 'FAILED',
+          error: `No transaction landed after ${_count.attempts} attempts${lastError ? `: ${lastError}` : ''}`,
+        },
+      });
+
+      const payments = await tx.payment.findMany({
+        where: { payoutBatchId: batchId },
+      });
+
+      return { batch: failedBatch, payments };
+    });
+
+    logger.error('Payout batch failed', new Error(failed.batch.error!));
+
+    this.emit('payouts:failed', failed);
+  }
+
+  /**
+   * Resume batches left without an open attempt for a while
+   * (never signed, or the process stopped before retrying)
+   */
+  private async resumeStalledBatches(): Promise<void> {
+    const stalled = await prisma.payoutBatch.findMany({
+      where: {
+        status: { in: ['PENDING', 'SUBMITTED', 'CONFIRMED'] },
+        updatedAt: { lt: new Date(Date.now() - STALLED_BATCH_MS) },
+        attempts: { none: { status: { in: ['SUBMITTED', 'CONFIRMED', 'FINALIZED'] } } },
+      },
+    });
+
+    for (const batch of stalled) {
+      // Claimed by touching it, so that only one confirmer resumes it
+      const claimed = await prisma.payoutBatch.updateMany({
+        where: { id: batch.id, updatedAt: batch.updatedAt },
+        data: { updatedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        continue;
+      }
+
+      try {
+        await this.retryBatch(batch.id, batch.error);
+      } catch (error) {
+        logger.error(`Failed to resume payout batch ${batch.id}`, error as Error);
+      }
+    }
+  }
+}
+
+export const payoutService = new PayoutService();
+export default payoutService;
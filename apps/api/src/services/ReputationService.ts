@@ -7,6 +7,7 @@ import logger from '../utils/logger.js';
  * 
  * Reputation score affects auction scoring and reflects
  * the Agent's track record of successful executions.
+ * Task creators carry a score too, moved by dispute verdicts.
  * 
  * Score range: 0.0 to 5.0
  * Base score: 3.0
@@ -64,12 +65,76 @@ export class ReputationService {
       take: 100,
     });
 
+    const score = this.computeScore(events);
+
+    // Update Agent
+    await prisma.agent.update({
+      where: { id: agentId },
+      data: { reputationScore: score },
+    });
+
+    logger.debug(`Reputation score recomputed for Agent ${agentId}: ${score}`);
+
+    return score;
+  }
+
+  /**
+   * Apply a reputation event to a Task creator (dispute outcomes)
+   */
+  async applyUserEvent(
+    userId: string,
+    taskId: string,
+    deltaScore: number,
+    reason: string
+  ): Promise<ReputationEvent> {
+    const event = await prisma.reputationEvent.create({
+      data: {
+        userId,
+        taskId,
+        deltaScore,
+        reason,
+      },
+    });
+
+    logger.info('Creator reputation event applied', {
+      userId,
+      taskId,
+      deltaScore,
+      reason,
+    });
+
+    await this.recomputeUserScore(userId);
+
+    return event;
+  }
+
+  /**
+   * Recompute a Task creator's reputation score (same algorithm as Agents)
+   */
+  async recomputeUserScore(userId: string): Promise<number> {
+    const events = await prisma.reputationEvent.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: 100,
+    });
+
+    const score = this.computeScore(events);
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { reputationScore: score },
+    });
+
+    logger.debug(`Reputation score recomputed for User ${userId}: ${score}`);
+
+    return score;
+  }
+
+  /**
+   * Score from recent events, newest first
+   */
+  private computeScore(events: ReputationEvent[]): number {
     if (events.length === 0) {
-      // No events, set to base score
-      await prisma.agent.update({
-        where: { id: agentId },
-        data: { reputationScore: this.BASE_SCORE },
-      });
       return this.BASE_SCORE;
     }
 
@@ -95,17 +160,7 @@ export class ReputationService {
     score = Math.max(this.MIN_SCORE, Math.min(this.MAX_SCORE, score));
 
     // Round to 2 decimal places
-    score = Math.round(score * 100) / 100;
-
-    // Update Agent
-    await prisma.agent.update({
-      where: { id: agentId },
-      data: { reputationScore: score },
-    });
-
-    logger.debug(`Reputation score recomputed for Agent ${agentId}: ${score}`);
-
-    return score;
+    return Math.round(score * 100) / 100;
   }
 
   /**
@@ -0,0 +1,330 @@
+import { EventEmitter } from 'events';
+import { Task, Execution, Dispute } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { ConflictError, ForbiddenError, NotFoundError } from '../utils/errors.js';
+import { guardStatus } from '../utils/state-machine.js';
+import { config } from '../config/index.js';
+import { paymentService } from './PaymentService.js';
+import { reputationService } from './ReputationService.js';
+import { agentService } from './AgentService.js';
+import { taskService } from './TaskService.js';
+import { shardService } from './ShardService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+import { subcontractService } from './SubcontractService.js';
+import { disputeService } from './DisputeService.js';
+
+/**
+ * ReviewService - Creator review of a delivered result before payment
+ *
+ * A successful single-winner Execution moves its Task to PENDING_REVIEW.
+ * The creator then:
+ * - accepts: the Task completes, the Agent is paid and gains reputation
+ * - requests a revision (up to maxRevisions): the Task goes back to RUNNING
+ *   with a new Execution for the same Agent
+ * - disputes: the Task is DISPUTED and payment is withheld until an
+ *   arbiter rules (DisputeService)
+ * Results the creator doesn't review within the review window are accepted
+ * by the scheduler. A window of 0 accepts results right away.
+ * Consensus Tasks settle through their consensus instead.
+ *
+ * Events emitted:
+ * - 'review:accepted' - when a result was accepted (by the creator or automatically)
+ * - 'review:revision-requested' - when the creator sent a result back
+ * - 'review:disputed' - when the creator disputed a result
+ */
+export class ReviewService extends EventEmitter {
+  /**
+   * Hand a successful Execution's result to the creator
+   * Called with the Task still RUNNING.
+   */
+  async submitForReview(task: Task, execution: Execution): Promise<void> {
+    const windowMs = task.reviewWindowSeconds != null
+      ? task.reviewWindowSeconds * 1000
+      : config.review.autoAcceptMs;
+
+    if (windowMs <= 0) {
+      await this.accept(task.id, 'RUNNING', false);
+      return;
+    }
+
+    const reviewDeadlineAt = new Date(Date.now() + windowMs);
+
+    await prisma.task.updateMany({
+      where: { id: task.id, status: 'RUNNING' },
+      data: { status: 'PENDING_REVIEW', reviewDeadlineAt },
+    });
+
+    logger.info('Result submitted for review', {
+      taskId: task.id,
+      executionId: execution.id,
+      agentId: execution.agentId,
+      reviewDeadlineAt,
+    });
+  }
+
+  /**
+   * Accept the result under review
+   */
+  async acceptResult(taskId: string, userId: string): Promise<Task> {
+    await this.getReviewableTask(taskId, userId);
+
+    if (!(await this.accept(taskId, 'PENDING_REVIEW', false))) {
+      throw new ConflictError('Result is no longer under review');
+    }
+
+    return taskService.getTaskById(taskId);
+  }
+
+  /**
+   * Accept every result whose review window has passed
+   * Returns the ids of the Tasks accepted.
+   */
+  async acceptOverdueReviews(): Promise<string[]> {
+    const overdue = await prisma.task.findMany({
+      where: {
+        status: 'PENDING_REVIEW',
+        reviewDeadlineAt: { lte: new Date() },
+      },
+      select: { id: true },
+    });
+
+    const accepted: string[] = [];
+    for (const task of overdue) {
+      try {
+        if (await this.accept(task.id, 'PENDING_REVIEW', true)) {
+          accepted.push(task.id);
+        }
+      } catch (error) {
+        logger.error(`Failed to auto-accept Task ${task.id}`, error as Error);
+      }
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Send the result back to the Agent with feedback
+   */
+  async requestRevision(taskId: string, userId: string, feedback: string): Promise<Execution> {
+    const task = await this.getReviewableTask(taskId, userId);
+    guardStatus(task.status).transitionTo('RUNNING');
+
+    const maxRevisions = task.maxRevisions ?? config.review.maxRevisions;
+    if (task.revisionCount >= maxRevisions) {
+      throw new ConflictError(
+        `Revision limit reached (${maxRevisions}): accept or dispute the result`
+      );
+    }
+
+    const delivered = await this.getDeliveredExecution(task);
+
+    // Claim the Task so a concurrent review or auto-accept can't settle it too
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'PENDING_REVIEW' },
+      data: {
+        status: 'RUNNING',
+        reviewDeadlineAt: null,
+        revisionCount: { increment: 1 },
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Result is no longer under review');
+    }
+
+    await prisma.execution.update({
+      where: { id: delivered.id },
+      data: { status: 'REVISION_REQUESTED', reviewFeedback: feedback },
+    });
+
+    const execution = await prisma.execution.create({
+      data: {
+        taskId,
+        agentId: delivered.agentId,
+        status: 'RUNNING',
+        startedAt: new Date(),
+      },
+    });
+
+    logger.info('Revision requested', {
+      taskId,
+      agentId: delivered.agentId,
+      revision: task.revisionCount + 1,
+      maxRevisions,
+    });
+
+    this.emit('review:revision-requested', {
+      taskId,
+      agentId: delivered.agentId,
+      executionId: execution.id,
+      feedback,
+      revision: task.revisionCount + 1,
+    });
+
+    return execution;
+  }
+
+  /**
+   * Dispute the result under review; payment is withheld
+   */
+  async openDispute(taskId: string, userId: string, reason: string): Promise<Dispute> {
+    const task = await this.getReviewableTask(taskId, userId);
+    guardStatus(task.status).transitionTo('DISPUTED');
+
+    const delivered = await this.getDeliveredExecution(task);
+
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'PENDING_REVIEW' },
+      data: { status: 'DISPUTED', reviewDeadlineAt: null },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictError('Result is no longer under review');
+    }
+
+    await prisma.execution.update({
+      where: { id: delivered.id },
+      data: { reviewFeedback: reason },
+    });
+
+    const dispute = await disputeService.openDispute(task, delivered, userId, reason);
+
+    logger.info('Result disputed', {
+      taskId,
+      agentId: delivered.agentId,
+      reason,
+    });
+
+    this.emit('review:disputed', {
+      taskId,
+      agentId: delivered.agentId,
+      executionId: delivered.id,
+      disputeId: dispute.id,
+      reason,
+    });
+
+    return dispute;
+  }
+
+  /**
+   * Complete the Task, pay the Agent and apply positive reputation
+   * Returns false if the result is no longer awaiting acceptance. If the
+   * payment can't be created, the result is put back up for acceptance.
+   */
+  private async accept(
+    taskId: string,
+    from: 'RUNNING' | 'PENDING_REVIEW',
+    automatic: boolean
+  ): Promise<boolean> {
+    const { reviewDeadlineAt } = await prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+      select: { reviewDeadlineAt: true },
+    });
+
+    // Claim the Task so the creator and the scheduler accept it once
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: from },
+      data: { status: 'COMPLETED', reviewDeadlineAt: null },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const task = await taskService.getTaskById(taskId);
+    const execution = await this.getDeliveredExecution(task);
+    const agentId = execution.agentId;
+
+    try {
+      const netShare = await subcontractService.getNetShare(task, agentId);
+
+      // Subtasks can cost the whole share: nothing is left to pay
+      if (netShare > 0n) {
+        await paymentService.createPendingPayment(
+          taskId,
+          agentId,
+          netShare,
+          task.paymentTokenSymbol,
+          task.fundedByAgentId
+        );
+      }
+    } catch (error) {
+      // Not paid: not accepted either (overdue results are retried by the scheduler)
+      await prisma.task.updateMany({
+        where: { id: taskId, status: 'COMPLETED' },
+        data: { status: from, reviewDeadlineAt },
+      });
+      throw error;
+    }
+
+    const durationSeconds = execution.completedAt
+      ? (execution.completedAt.getTime() - execution.startedAt.getTime()) / 1000
+      : 0;
+
+    await reputationService.applyEvent(
+      agentId,
+      taskId,
+      0.1,
+      `Successfully completed Task in ${durationSeconds.toFixed(1)}s`
+    );
+    await agentService.recomputeStats(agentId);
+
+    logger.info('Result accepted', {
+      taskId,
+      agentId,
+      executionId: execution.id,
+      automatic,
+      revisions: task.revisionCount,
+    });
+
+    this.emit('review:accepted', {
+      taskId,
+      agentId,
+      executionId: execution.id,
+      automatic,
+    });
+
+    // Move a map-reduce parent and dependent Tasks on, and settle the escrow
+    await shardService.handleShardFinished(taskId);
+    await escrowService.settleTask(taskId);
+    await workflowService.handleTaskFinished(taskId);
+
+    return true;
+  }
+
+  /**
+   * A Task under review, checked against the reviewing user
+   */
+  private async getReviewableTask(taskId: string, userId: string): Promise<Task> {
+    const task = await taskService.getTaskById(taskId);
+
+    if (task.createdByUserId !== userId) {
+      throw new ForbiddenError('Only the Task creator can review its result');
+    }
+
+    guardStatus(task.status).assertCanReview();
+
+    return task;
+  }
+
+  /**
+   * The Execution whose result is being reviewed
+   */
+  private async getDeliveredExecution(task: Task): Promise<Execution> {
+    const execution = await prisma.execution.findFirst({
+      where: { taskId: task.id, agentId: task.assignedAgentId ?? undefined, status: 'SUCCESS' },
+      orderBy: { completedAt: 'desc' },
+    });
+
+    if (!execution) {
+      throw new NotFoundError('Delivered Execution');
+    }
+
+    return execution;
+  }
+}
+
+export const reviewService = new ReviewService();
+export default reviewService;
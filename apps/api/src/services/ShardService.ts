@@ -0,0 +1,390 @@
+import { EventEmitter } from 'events';
+import { Prisma, Task, TaskStatus } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { NotFoundError, ValidationError } from '../utils/errors.js';
+import { isTerminal } from '../utils/state-machine.js';
+import { taskService, CreateTaskInput } from './TaskService.js';
+import { workflowService } from './WorkflowService.js';
+import { escrowService } from './EscrowService.js';
+
+export interface CreateShardedTaskInput
+  extends Omit<CreateTaskInput, 'budgetLamports' | 'dependsOn' | 'onDependencyFailure' | 'milestones'> {
+  shardInputs: string[];
+  shardBudgetLamports: bigint;
+  reduce?: {
+    budgetLamports: bigint;
+    requiredCapabilities?: string[];
+  };
+}
+
+export interface ShardProgress {
+  total: number;
+  completed: number;
+  failed: number; // FAILED, CANCELLED or EXPIRED
+  inProgress: number; // ASSIGNED, RUNNING, PENDING_REVIEW or DISPUTED
+  waiting: number; // AWAITING_FUNDING, OPEN or IN_AUCTION
+  percent: number;
+  reduceStatus: TaskStatus | null; // null until the reduce shard exists
+}
+
+const MAX_SHARDS = 1000;
+
+/**
+ * ShardService - Map-reduce Tasks split into separately auctioned shards
+ *
+ * A SHARD_PARENT holds the settings shared by its shards and is never
+ * auctioned itself; once funded, it stays RUNNING while its shards are worked on.
+ * Each SHARD is a regular Task (own auction, execution and payment) carrying
+ * one slice of the input. Once every shard completed, the optional REDUCE
+ * shard is created with the combined outputs; the parent completes when it
+ * does (or right away without a reduce step). Any shard ending without a
+ * result fails the parent, and the shards still waiting or running with it.
+ *
+ * Events emitted:
+ * - 'shards:reduce-ready' - when the reduce shard was created and needs an auction
+ * - 'shards:progress' - when a shard of a parent finished (with the parent's progress)
+ * - 'shards:cancelled' - when a failed parent cancelled its unfinished shards (their auctions need cancelling)
+ */
+export class ShardService extends EventEmitter {
+  /**
+   * Create a parent Task and its shards, all AWAITING_FUNDING
+   * Funding the parent's escrow opens the shards (EscrowService.fundTask).
+   */
+  async createShardedTask(
+    userId: string,
+    input: CreateShardedTaskInput
+  ): Promise<{ parent: Task; shards: Task[] }> {
+    const { shardInputs, shardBudgetLamports, reduce, ...settings } = input;
+
+    if (shardInputs.length < 2) {
+      throw new ValidationError('A sharded Task needs at least 2 shards');
+    }
+    if (shardInputs.length > MAX_SHARDS) {
+      throw new ValidationError(`A sharded Task can have at most ${MAX_SHARDS} shards`);
+    }
+    if (reduce && reduce.budgetLamports <= 0) {
+      throw new ValidationError('Reduce budget must be greater than 0');
+    }
+
+    // Every shard is auctioned with the same settings and the per-shard budget
+    const shardSettings: CreateTaskInput = { ...settings, budgetLamports: shardBudgetLamports };
+    taskService.validateTaskInput(shardSettings);
+
+    const shardCount = shardInputs.length;
+    const budgetLamports = shardBudgetLamports * BigInt(shardCount) + (reduce?.budgetLamports ?? 0n);
+
+    const { parent, shards } = await prisma.$transaction(async (tx) => {
+      const parent = await tx.task.create({
+        data: {
+          ...taskService.buildTaskData(userId, shardSettings),
+          budgetLamports,
+          kind: 'SHARD_PARENT',
+          status: 'AWAITING_FUNDING',
+          shardCount,
+          reduceBudgetLamports: reduce?.budgetLamports,
+          reduceCapabilities: reduce?.requiredCapabilities,
+        },
+      });
+
+      await tx.task.createMany({
+        data: shardInputs.map((shardInput, shardIndex) => ({
+          ...taskService.buildTaskData(userId, shardSettings),
+          title: `${settings.title} [${shardIndex + 1}/${shardCount}]`,
+          kind: 'SHARD' as const,
+          status: 'AWAITING_FUNDING' as const,
+          parentTaskId: parent.id,
+          shardIndex,
+          shardInput,
+        })),
+      });
+
+      const shards = await tx.task.findMany({
+        where: { parentTaskId: parent.id },
+        orderBy: { shardIndex: 'asc' },
+      });
+
+      return { parent, shards };
+    });
+
+    logger.info('Sharded Task created', {
+      taskId: parent.id,
+      title: parent.title,
+      shardCount,
+      shardBudgetLamports: shardBudgetLamports.toString(),
+      reduce: !!reduce,
+    });
+
+    return { parent, shards };
+  }
+
+  /**
+   * List a parent's shards (map shards by index, then the reduce shard)
+   */
+  async listShards(parentTaskId: string): Promise<Task[]> {
+    return prisma.task.findMany({
+      where: { parentTaskId, kind: { in: ['SHARD', 'REDUCE'] } },
+      orderBy: { shardIndex: 'asc' },
+      include: {
+        assignedAgent: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Aggregate progress of a parent's map shards
+   */
+  async getProgress(parentTaskId: string): Promise<ShardProgress> {
+    const parent = await prisma.task.findUnique({
+      where: { id: parentTaskId },
+    });
+
+    if (!parent) {
+      throw new NotFoundError('Task', parentTaskId);
+    }
+
+    if (parent.kind !== 'SHARD_PARENT') {
+      throw new ValidationError('Task is not a sharded Task');
+    }
+
+    const shards = await prisma.task.findMany({
+      where: { parentTaskId, kind: { in: ['SHARD', 'REDUCE'] } },
+      select: { kind: true, status: true },
+    });
+
+    const mapShards = shards.filter(shard => shard.kind === 'SHARD');
+    const count = (statuses: TaskStatus[]) =>
+      mapShards.filter(shard => statuses.includes(shard.status)).length;
+
+    const total = parent.shardCount ?? mapShards.length;
+    const completed = count(['COMPLETED']);
+
+    return {
+      total,
+      completed,
+      failed: count(['FAILED', 'CANCELLED', 'EXPIRED']),
+      inProgress: count(['ASSIGNED', 'RUNNING', 'PENDING_REVIEW', 'DISPUTED']),
+      waiting: count(['AWAITING_FUNDING', 'OPEN', 'IN_AUCTION']),
+      percent: total > 0 ? Math.round((completed / total) * 100) : 0,
+      reduceStatus: shards.find(shard => shard.kind === 'REDUCE')?.status ?? null,
+    };
+  }
+
+  /**
+   * Move a parent on after one of its shards reached a terminal status
+   * No-op for Tasks that aren't shards, or whose parent is already settled.
+   */
+  async handleShardFinished(taskId: string): Promise<void> {
+    const shard = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+
+    if (
+      !shard?.parentTaskId ||
+      (shard.kind !== 'SHARD' && shard.kind !== 'REDUCE') ||
+      !isTerminal(shard.status)
+    ) {
+      return;
+    }
+
+    const parent = await prisma.task.findUnique({
+      where: { id: shard.parentTaskId },
+    });
+
+    if (!parent || parent.status !== 'RUNNING') {
+      return;
+    }
+
+    if (shard.kind === 'REDUCE') {
+      await this.finishParent(
+        parent,
+        shard.status === 'COMPLETED' ? 'COMPLETED' : 'FAILED',
+        shard.status === 'COMPLETED' ? await taskService.getTaskResult(shard) : null
+      );
+      return;
+    }
+
+    if (shard.status !== 'COMPLETED') {
+      // Without this shard's output there is nothing to reduce
+      await this.finishParent(parent, 'FAILED', null);
+      return;
+    }
+
+    const progress = await this.getProgress(parent.id);
+    this.emit('shards:progress', { taskId: parent.id, shardId: shard.id, progress });
+
+    if (progress.completed < progress.total) {
+      return;
+    }
+
+    const outputs = await this.collectOutputs(parent.id);
+
+    if (parent.reduceBudgetLamports === null) {
+      await this.finishParent(parent, 'COMPLETED', JSON.stringify(outputs));
+      return;
+    }
+
+    const reduce = await this.createReduceShard(parent, outputs);
+    if (reduce) {
+      this.emit('shards:reduce-ready', reduce);
+    }
+  }
+
+  /**
+   * Create the reduce shard with the outputs of every map shard
+   * Returns null if a concurrent completion created it first.
+   */
+  private async createReduceShard(parent: Task, outputs: (string | null)[]): Promise<Task | null> {
+    const {
+      id: _id,
+      createdAt: _createdAt,
+      updatedAt: _updatedAt,
+      scoringWeights,
+      reduceCapabilities,
+      upstreamResults: _upstreamResults,
+      ...settings
+    } = parent;
+
+    try {
+      const reduce = await prisma.task.create({
+        data: {
+          ...settings,
+          title: `${parent.title} [reduce]`,
+          scoringWeights: scoringWeights ?? Prisma.JsonNull,
+          budgetLamports: parent.reduceBudgetLamports!,
+          requiredCapabilities: reduceCapabilities.length > 0
+            ? reduceCapabilities
+            : parent.requiredCapabilities,
+          status: 'OPEN',
+          auctionStartsAt: null,
+          kind: 'REDUCE',
+          parentTaskId: parent.id,
+          shardIndex: parent.shardCount,
+          shardInput: JSON.stringify(outputs),
+          shardCount: null,
+          reduceBudgetLamports: null,
+          reduceCapabilities: [],
+        },
+      });
+
+      logger.info('Reduce shard created', {
+        taskId: parent.id,
+        reduceTaskId: reduce.id,
+        shardCount: outputs.length,
+      });
+
+      return reduce;
+    } catch (error) {
+      // Unique (parentTaskId, shardIndex): another completion got there first
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Settle a parent once (its shards settle and pay on their own)
+   */
+  private async finishParent(
+    parent: Task,
+    status: 'COMPLETED' | 'FAILED',
+    resultPayload: string | null
+  ): Promise<void> {
+    const claimed = await prisma.task.updateMany({
+      where: { id: parent.id, status: 'RUNNING' },
+      data: { status, resultPayload },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const progress = await this.getProgress(parent.id);
+
+    logger.info('Sharded Task finished', {
+      taskId: parent.id,
+      status,
+      ...progress,
+    });
+
+    this.emit('shards:progress', { taskId: parent.id, status, progress });
+
+    if (status === 'FAILED') {
+      await this.cancelUnfinishedShards(parent.id);
+    }
+
+    await escrowService.settleTask(parent.id);
+    await workflowService.handleTaskFinished(parent.id);
+  }
+
+  /**
+   * Cancel the shards of a failed parent that haven't delivered yet
+   * Results already under review are left to finish (the work was done).
+   */
+  private async cancelUnfinishedShards(parentTaskId: string): Promise<void> {
+    const unfinished = await prisma.task.findMany({
+      where: {
+        parentTaskId,
+        kind: { in: ['SHARD', 'REDUCE'] },
+        status: { in: ['AWAITING_FUNDING', 'OPEN', 'IN_AUCTION', 'ASSIGNED', 'RUNNING'] },
+      },
+    });
+
+    const shardIds: string[] = [];
+    for (const shard of unfinished) {
+      const claimed = await prisma.task.updateMany({
+        where: { id: shard.id, status: shard.status },
+        data: { status: 'CANCELLED' },
+      });
+
+      if (claimed.count > 0) {
+        shardIds.push(shard.id);
+      }
+    }
+
+    if (shardIds.length === 0) {
+      return;
+    }
+
+    await prisma.auction.updateMany({
+      where: { taskId: { in: shardIds }, status: { in: ['SCHEDULED', 'OPEN'] } },
+      data: { status: 'CANCELLED', closedAt: new Date() },
+    });
+
+    // Awarded or running shards: their Agents won't be paid for finishing
+    await prisma.execution.updateMany({
+      where: { taskId: { in: shardIds }, status: { in: ['PENDING', 'RUNNING'] } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+
+    logger.info('Unfinished shards cancelled', {
+      taskId: parentTaskId,
+      shardCount: shardIds.length,
+    });
+
+    this.emit('shards:cancelled', { taskId: parentTaskId, shardIds });
+  }
+
+  /**
+   * Outputs of the map shards, in shard order
+   */
+  private async collectOutputs(parentTaskId: string): Promise<(string | null)[]> {
+    const shards = await prisma.task.findMany({
+      where: { parentTaskId, kind: 'SHARD' },
+      orderBy: { shardIndex: 'asc' },
+    });
+
+    const outputs: (string | null)[] = [];
+    for (const shard of shards) {
+      outputs.push(await taskService.getTaskResult(shard));
+    }
+
+    return outputs;
+  }
+}
+
+export const shardService = new ShardService();
+export default shardService;
@@ -0,0 +1,126 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Payment, Task } from '@prisma/client';
+
+const { db, prismaMock } = vi.hoisted(() => {
+  const db = {
+    tasks: [] as Task[],
+    payments: [] as Payment[],
+  };
+
+  const prismaMock = {
+    task: {
+      findMany: vi.fn(async ({ where }) => db.tasks.filter(task =>
+        task.parentTaskId === where.parentTaskId &&
+        task.kind === where.kind &&
+        (where.fundedByAgentId === undefined || task.fundedByAgentId === where.fundedByAgentId) &&
+        (where.status === undefined || task.status === where.status)
+      )),
+    },
+    payment: {
+      aggregate: vi.fn(async ({ where }) => ({
+        _sum: {
+          amountLamports: db.payments
+            .filter(payment =>
+              payment.taskId === where.taskId &&
+              (where.agentId === undefined || payment.agentId === where.agentId) &&
+              where.status.in.includes(payment.status)
+            )
+            .reduce((sum, payment) => sum + payment.amountLamports, 0n),
+        },
+      })),
+    },
+  };
+
+  return { db, prismaMock };
+});
+
+vi.mock('../utils/prisma.js', () => ({ default: prismaMock }));
+vi.mock('../utils/logger.js', () => ({
+  default: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+vi.mock('./TaskService.js', () => ({ taskService: {} }));
+vi.mock('./AgentService.js', () => ({ agentService: {} }));
+
+import { SubcontractService } from './SubcontractService.js';
+
+const PARENT = {
+  id: 'parent-1',
+  budgetLamports: 2000n,
+  awardedPriceLamports: 1000n,
+} as Task;
+
+function addSubtask(id: string, fundedByAgentId: string, status: Task['status'], budgetLamports: bigint): void {
+  db.tasks.push({
+    id,
+    parentTaskId: PARENT.id,
+    kind: 'SUBTASK',
+    fundedByAgentId,
+    status,
+    budgetLamports,
+    maxBudgetLamports: null,
+  } as Task);
+}
+
+function addPayment(taskId: string, agentId: string, amountLamports: bigint, status: Payment['status'] = 'COMPLETED'): void {
+  db.payments.push({ taskId, agentId, amountLamports, status } as Payment);
+}
+
+describe('SubcontractService net share', () => {
+  let subcontractService: SubcontractService;
+
+  beforeEach(() => {
+    db.tasks = [];
+    db.payments = [];
+    subcontractService = new SubcontractService();
+  });
+
+  it('is the awarded price less what the Agent\'s completed subtasks cost', async () => {
+    addSubtask('sub-1', 'agent-1', 'COMPLETED', 300n);
+    addPayment('sub-1', 'worker-1', 250n);
+    addSubtask('sub-2', 'agent-1', 'FAILED', 200n);
+
+    expect(await subcontractService.getNetShare(PARENT, 'agent-1')).toBe(750n);
+  });
+
+  it('falls back to the budget when no price was awarded', async () => {
+    addSubtask('sub-1', 'agent-1', 'COMPLETED', 300n);
+    addPayment('sub-1', 'worker-1', 300n);
+
+    const task = { ...PARENT, awardedPriceLamports: null };
+
+    expect(await subcontractService.getNetShare(task, 'agent-1')).toBe(1700n);
+  });
+
+  it('does not charge the Agent for subtasks of an Agent that failed the Task before', async () => {
+    addSubtask('sub-1', 'failed-agent', 'COMPLETED', 400n);
+    addPayment('sub-1', 'worker-1', 400n);
+    addSubtask('sub-2', 'agent-1', 'COMPLETED', 100n);
+    addPayment('sub-2', 'worker-2', 100n);
+
+    expect(await subcontractService.getNetShare(PARENT, 'agent-1')).toBe(900n);
+  });
+
+  it('is never negative', async () => {
+    addSubtask('sub-1', 'agent-1', 'COMPLETED', 1200n);
+    addPayment('sub-1', 'worker-1', 1200n);
+
+    expect(await subcontractService.getNetShare(PARENT, 'agent-1')).toBe(0n);
+  });
+
+  it('reserves open subtasks at their ceiling and counts milestones paid in the subtask budget', async () => {
+    addSubtask('sub-1', 'agent-1', 'COMPLETED', 300n);
+    addPayment('sub-1', 'worker-1', 200n);
+    addSubtask('sub-2', 'agent-1', 'RUNNING', 100n);
+    db.tasks[1].maxBudgetLamports = 150n;
+    addSubtask('sub-3', 'failed-agent', 'RUNNING', 500n);
+    addPayment(PARENT.id, 'agent-1', 250n, 'PENDING');
+
+    const budget = await subcontractService.getSubtaskBudget(PARENT, 'agent-1');
+
+    expect(budget).toEqual({
+      shareLamports: 1000n,
+      committedLamports: 600n,
+      availableLamports: 400n,
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Task, Execution } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { ConflictError, ForbiddenError, ValidationError } from '../utils/errors.js';
+import { isTerminal } from '../utils/state-machine.js';
+import { taskService, CreateTaskInput } from './TaskService.js';
+import { agentService } from './AgentService.js';
+
+export interface SubtaskBudget {
+  shareLamports: bigint; // what the parent Task pays its Agent
+  committedLamports: bigint; // reserved by open subtasks, owed to finished ones, and milestones paid
+  availableLamports: bigint;
+}
+
+/**
+ * SubcontractService - Agents posting subtasks under a Task they are running
+ *
+ * A subtask is a regular Task (own auction, execution and payment) linked to
+ * the Execution that posted it. Its budget is reserved from the posting
+ * Agent's share of the parent Task; once the parent completes, that Agent is
+ * paid its share minus what its subtasks cost. Subtask payments record the
+ * funding Agent as payer. The funding Agent can't win its own subtasks, so
+ * reputation is earned by whoever actually executes them.
+ */
+export class SubcontractService {
+  /**
+   * Post a subtask on behalf of the Agent running the parent Task
+   */
+  async createSubtask(
+    userId: string,
+    parentTaskId: string,
+    agentId: string,
+    input: CreateTaskInput
+  ): Promise<Task> {
+    const agent = await agentService.getAgentById(agentId);
+    if (agent.ownerUserId !== userId) {
+      throw new ForbiddenError('You can only post subtasks for your own Agent');
+    }
+
+    const parent = await taskService.getTaskById(parentTaskId);
+    const execution = await this.getRunningExecution(parent, agentId);
+
+    if (input.allowedAgentIds?.includes(agentId)) {
+      throw new ValidationError('An Agent cannot bid on its own subtasks');
+    }
+
+    // Subtasks must wrap up before the parent is due
+    if (parent.deadline && input.deadline && input.deadline > parent.deadline) {
+      throw new ValidationError('Subtask deadline must not be after the parent Task deadline');
+    }
+
+    const budget = await this.getSubtaskBudget(parent, agentId);
+    const reservedLamports = input.maxBudgetLamports ?? input.budgetLamports;
+
+    if (reservedLamports > budget.availableLamports) {
+      throw new ValidationError(
+        `Subtask budget (${reservedLamports}) exceeds what is left of the Agent's share ` +
+        `(${budget.availableLamports} of ${budget.shareLamports})`
+      );
+    }
+
+    const subtask = await taskService.createTask(
+      userId,
+      {
+        ...input,
+        deadline: input.deadline ?? parent.deadline ?? undefined,
+        // An Agent can't earn pay or reputation from work it funds itself
+        deniedAgentIds: [...new Set([...(input.deniedAgentIds ?? []), agentId])],
+      },
+      {
+        kind: 'SUBTASK',
+        parentTaskId,
+        parentExecutionId: execution.id,
+        fundedByAgentId: agentId,
+      }
+    );
+
+    logger.info('Subtask created', {
+      taskId: subtask.id,
+      parentTaskId,
+      parentExecutionId: execution.id,
+      fundedByAgentId: agentId,
+      budgetLamports: subtask.budgetLamports.toString(),
+    });
+
+    return subtask;
+  }
+
+  /**
+   * List the subtasks posted under a Task
+   */
+  async listSubtasks(parentTaskId: string): Promise<Task[]> {
+    return prisma.task.findMany({
+      where: { parentTaskId, kind: 'SUBTASK' },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        assignedAgent: {
+          select: { id: true, name: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * How much of an Agent's share its subtasks and milestone payments have used
+   * Counts the subtasks of every Execution the Agent ran (revisions included).
+   * An Agent that failed the Task can't win it again, so these all belong to
+   * the current assignment; what earlier Agents committed was taken off the
+   * budget when the Task was retried.
+   */
+  async getSubtaskBudget(parent: Task, agentId: string): Promise<SubtaskBudget> {
+    const shareLamports = parent.awardedPriceLamports ?? parent.budgetLamports;
+
+    const subtasks = await prisma.task.findMany({
+      where: { parentTaskId: parent.id, kind: 'SUBTASK', fundedByAgentId: agentId },
+    });
+
+    // Milestones already paid on the parent come out of the same share
+    let committedLamports = await this.getPaidLamports(parent.id, agentId);
+    for (const subtask of subtasks) {
+      if (subtask.status === 'COMPLETED') {
+        committedLamports += await this.getPaidLamports(subtask.id);
+      } else if (!isTerminal(subtask.status)) {
+        // Budget escalation may raise the price up to the ceiling
+        committedLamports += subtask.maxBudgetLamports ?? subtask.budgetLamports;
+      }
+    }
+
+    const availableLamports = shareLamports > committedLamports ? shareLamports - committedLamports : 0n;
+
+    return { shareLamports, committedLamports, availableLamports };
+  }
+
+  /**
+   * What an Agent's subtasks under a Task cost it
+   */
+  async getSubtaskSpend(parentTaskId: string, agentId: string): Promise<bigint> {
+    const subtasks = await prisma.task.findMany({
+      where: { parentTaskId, kind: 'SUBTASK', fundedByAgentId: agentId, status: 'COMPLETED' },
+      select: { id: true },
+    });
+
+    let spentLamports = 0n;
+    for (const subtask of subtasks) {
+      spentLamports += await this.getPaidLamports(subtask.id);
+    }
+
+    return spentLamports;
+  }
+
+  /**
+   * What an Agent is owed for a Task: its share less what its subtasks cost
+   */
+  async getNetShare(task: Task, agentId: string): Promise<bigint> {
+    // The awarded price (the budget for Tasks awarded before prices were recorded)
+    const shareLamports = task.awardedPriceLamports ?? task.budgetLamports;
+    const subtaskSpend = await this.getSubtaskSpend(task.id, agentId);
+
+    return shareLamports > subtaskSpend ? shareLamports - subtaskSpend : 0n;
+  }
+
+  /**
+   * An Agent can only deliver once its subtasks finished or were abandoned
+   */
+  async assertSubtasksFinished(parentTaskId: string, agentId: string): Promise<void> {
+    const open = await prisma.task.findMany({
+      where: {
+        parentTaskId,
+        kind: 'SUBTASK',
+        fundedByAgentId: agentId,
+        status: { notIn: ['COMPLETED', 'FAILED', 'CANCELLED', 'EXPIRED'] },
+      },
+      select: { id: true },
+    });
+
+    if (open.length > 0) {
+      throw new ConflictError(
+        `${open.length} subtask(s) still open: wait for them to finish or cancel them ` +
+        `(${open.map(task => task.id).join(', ')})`
+      );
+    }
+  }
+
+  /**
+   * The parent Execution an Agent is running
+   */
+  private async getRunningExecution(parent: Task, agentId: string): Promise<Execution> {
+    if (parent.winnerCount > 1) {
+      throw new ValidationError('Consensus Tasks cannot have subtasks');
+    }
+
+    if (parent.status !== 'RUNNING' || parent.assignedAgentId !== agentId) {
+      throw new ConflictError('Subtasks can only be posted by the Agent running the Task');
+    }
+
+    const execution = await prisma.execution.findFirst({
+      where: { taskId: parent.id, agentId, status: 'RUNNING' },
+    });
+
+    if (!execution) {
+      throw new ConflictError('Subtasks can only be posted by the Agent running the Task');
+    }
+
+    return execution;
+  }
+
+  /**
+   * Amount owed for a Task, or to one of its Agents (payments that didn't fail or get refunded)
+   */
+  private async getPaidLamports(taskId: string, agentId?: string): Promise<bigint> {
+    const result = await prisma.payment.aggregate({
+      where: { taskId, agentId, status: { in: ['PENDING', 'SUBMITTED', 'CONFIRMED', 'COMPLETED'] } },
+      _sum: { amountLamports: true },
+    });
+
+    return result._sum.amountLamports ?? 0n;
+  }
+}
+
+export const subcontractService = new SubcontractService();
+export default subcontractService;
@@ -0,0 +1,209 @@
+import { EventEmitter } from 'events';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { config } from '../config/index.js';
+import { auctionEngine } from './AuctionEngine.js';
+import { executionService } from './ExecutionService.js';
+import { reviewService } from './ReviewService.js';
+import { milestoneService } from './MilestoneService.js';
+import { escrowService } from './EscrowService.js';
+import { payoutService } from './PayoutService.js';
+import { paymentService } from './PaymentService.js';
+import { workflowService } from './WorkflowService.js';
+
+/**
+ * TaskScheduler - Periodic sweeps for deadlines and execution timeouts
+ *
+ * Every SCHEDULER_INTERVAL_MS it:
+ * - expires OPEN / IN_AUCTION Tasks whose deadline has passed
+ * - warns Agents whose RUNNING execution is about to time out
+ * - fails RUNNING executions past the Task deadline, or past their offer's
+ *   ETA times EXECUTION_ETA_GRACE_FACTOR
+ * - accepts results and milestones left unreviewed past their review deadline
+ * - credits pending escrow deposits found on-chain, and expires Tasks left
+ *   unfunded past ESCROW_DEPOSIT_WINDOW_MS or their deadline
+ * - follows payout transactions until finalized, retrying those that expired,
+ *   then pays out pending payments in batches once they are due (PayoutService)
+ * - follows refund transfers until finalized, restoring payments whose refund expired
+ *
+ * Events emitted:
+ * - 'scheduler:task-expired' - when an unassigned Task passed its deadline
+ * - 'scheduler:timeout-warning' - when an execution is about to time out
+ * - 'scheduler:timed-out' - when an execution was failed for running too long
+ */
+export class TaskScheduler extends EventEmitter {
+  private timer: NodeJS.Timeout | null = null;
+  private sweeping = false;
+  private warnedExecutions: Set<string> = new Set();
+
+  /**
+   * Start sweeping (idempotent)
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch((error) => {
+        logger.error('Scheduler sweep failed', error as Error);
+      });
+    }, config.scheduler.intervalMs);
+
+    logger.info(`TaskScheduler started with ${config.scheduler.intervalMs}ms interval`);
+  }
+
+  /**
+   * Stop sweeping
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every sweep once (skipped while a previous sweep is still running)
+   */
+  async sweep(): Promise<void> {
+    if (this.sweeping) {
+      return;
+    }
+
+    this.sweeping = true;
+    try {
+      await this.expireOverdueTasks();
+      await this.timeoutOverdueExecutions();
+      await reviewService.acceptOverdueReviews();
+      await milestoneService.approveOverdueMilestones();
+      await escrowService.confirmPendingDeposits();
+      await this.expireUnfundedTasks();
+      await payoutService.confirmSettlements();
+      await paymentService.confirmRefunds();
+      await payoutService.runPayouts();
+    } finally {
+      this.sweeping = false;
+    }
+  }
+
+  /**
+   * Expire Tasks still looking for an Agent after their deadline
+   */
+  private async expireOverdueTasks(): Promise<void> {
+    const overdue = await prisma.task.findMany({
+      where: {
+        status: { in: ['OPEN', 'IN_AUCTION'] },
+        deadline: { lte: new Date() },
+      },
+      select: { id: true, deadline: true },
+    });
+
+    for (const task of overdue) {
+      try {
+        if (await auctionEngine.expireOverdueTask(task.id)) {
+          this.emit('scheduler:task-expired', { taskId: task.id, deadline: task.deadline });
+        }
+      } catch (error) {
+        logger.error(`Failed to expire overdue Task ${task.id}`, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Expire Tasks never funded, then move their dependents on
+   */
+  private async expireUnfundedTasks(): Promise<void> {
+    for (const taskId of await escrowService.expireUnfundedTasks()) {
+      try {
+        await workflowService.handleTaskFinished(taskId);
+      } catch (error) {
+        logger.error(`Failed to run dependents of unfunded Task ${taskId}`, error as Error);
+      }
+    }
+  }
+
+  /**
+   * Warn, then fail, executions running past their time limit
+   */
+  private async timeoutOverdueExecutions(): Promise<void> {
+    const running = await prisma.execution.findMany({
+      where: { status: 'RUNNING' },
+      include: { task: true },
+    });
+
+    // Promised ETAs of the accepted offers
+    const offers = await prisma.offer.findMany({
+      where: {
+        status: 'ACCEPTED',
+        taskId: { in: running.map(execution => execution.taskId) },
+      },
+      select: { taskId: true, agentId: true, etaSeconds: true },
+    });
+    const etaByExecution = new Map(
+      offers.map(offer => [`${offer.taskId}:${offer.agentId}`, offer.etaSeconds])
+    );
+
+    const now = Date.now();
+    const runningIds = new Set(running.map(execution => execution.id));
+
+    for (const execution of running) {
+      const { task } = execution;
+      const etaSeconds = etaByExecution.get(`${execution.taskId}:${execution.agentId}`);
+
+      const limits: { at: number; reason: string }[] = [];
+      if (task.deadline) {
+        limits.push({ at: task.deadline.getTime(), reason: 'task deadline passed' });
+      }
+      if (etaSeconds !== undefined) {
+        const graceMs = etaSeconds * 1000 * config.execution.etaGraceFactor;
+        limits.push({
+          at: execution.startedAt.getTime() + graceMs,
+          reason: `ETA of ${etaSeconds}s exceeded (x${config.execution.etaGraceFactor} grace)`,
+        });
+      }
+
+      if (limits.length === 0) {
+        continue;
+      }
+
+      const limit = limits.reduce((earliest, next) => (next.at < earliest.at ? next : earliest));
+      const notice = {
+        taskId: execution.taskId,
+        agentId: execution.agentId,
+        executionId: execution.id,
+        timeoutAt: new Date(limit.at),
+        reason: limit.reason,
+      };
+
+      try {
+        if (now >= limit.at) {
+          const timedOut = await executionService.timeoutExecution(execution.id, limit.reason);
+          this.warnedExecutions.delete(execution.id);
+
+          if (timedOut) {
+            this.emit('scheduler:timed-out', notice);
+          }
+        } else if (
+          now >= limit.at - config.execution.timeoutWarningMs &&
+          !this.warnedExecutions.has(execution.id)
+        ) {
+          this.warnedExecutions.add(execution.id);
+          this.emit('scheduler:timeout-warning', notice);
+        }
+      } catch (error) {
+        logger.error(`Failed to time out Execution ${execution.id}`, error as Error);
+      }
+    }
+
+    // Forget warnings for executions that finished on their own
+    for (const id of this.warnedExecutions) {
+      if (!runningIds.has(id)) {
+        this.warnedExecutions.delete(id);
+      }
+    }
+  }
+}
+
+export const taskScheduler = new TaskScheduler();
+export default taskScheduler;
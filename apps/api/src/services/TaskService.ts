@@ -1,8 +1,10 @@
-import { Prisma, Task, TaskStatus } from '@prisma/client';
+import { Prisma, Task, TaskStatus, AuctionMode, DependencyFailurePolicy } from '@prisma/client';
 import prisma from '../utils/prisma.js';
 import { NotFoundError, ValidationError } from '../utils/errors.js';
-import { guardStatus, assertValidTransition } from '../utils/state-machine.js';
+import { guardStatus, assertValidTransition, canRetry } from '../utils/state-machine.js';
 import logger from '../utils/logger.js';
+import { getScoringPolicy, resolveWeights } from '../scoring/index.js';
+import { getComparator } from '../consensus/index.js';
 
 export interface CreateTaskInput {
   title: string;
@@ -11,43 +13,89 @@ export interface CreateTaskInput {
   budgetLamports: bigint;
   deadline?: Date;
   requiredCapabilities: string[];
+  auctionMode?: AuctionMode;
+  minScoreStep?: number;
+  snipeWindowSeconds?: number;
+  extensionSeconds?: number;
+  auctionWindowSeconds?: number;
+  auctionStartsAt?: Date;
+  minOffers?: number;
+  reservePriceLamports?: bigint;
+  scoringPolicy?: string;
+  scoringWeights?: Record<string, number>;
+  minReputation?: number;
+  minTasksCompleted?: number;
+  maxFailureRatio?: number;
+  allowedAgentIds?: string[];
+  allowedOwnerIds?: string[];
+  deniedAgentIds?: string[];
+  deniedOwnerIds?: string[];
+  maxReauctions?: number;
+  backoffSeconds?: number;
+  budgetStepLamports?: bigint;
+  maxBudgetLamports?: bigint;
+  buyNowPriceLamports?: bigint;
+  buyNowMaxEtaSeconds?: number;
+  buyNowMinReputation?: number;
+  startTimeoutSeconds?: number;
+  winnerCount?: number;
+  consensusThreshold?: number;
+  consensusComparator?: string;
+  consensusTolerance?: number;
+  dependsOn?: string[];
+  onDependencyFailure?: DependencyFailurePolicy;
+  reviewWindowSeconds?: number;
+  maxRevisions?: number;
+  maxRetries?: number;
+  milestones?: MilestoneInput[];
 }
 
+export interface MilestoneInput {
+  title: string;
+  deliverable: string;
+  shareBps: number; // share of the Agent's price, in basis points
+}
+
+// Where a Task sits in a tree of Tasks (subtasks)
+export type TaskLineage = Pick<
+  Prisma.TaskUncheckedCreateInput,
+  'kind' | 'parentTaskId' | 'parentExecutionId' | 'fundedByAgentId'
+>;
+
 export interface TaskFilters {
   status?: TaskStatus;
   search?: string;
   createdByUserId?: string;
 }
 
+// Scheduled auctions are armed with setTimeout, keep them well within its range
+const MAX_AUCTION_DELAY_MS = 14 * 24 * 60 * 60 * 1000;
+
+const MAX_PREREQUISITES = 50;
+
+const MAX_MILESTONES = 20;
+
 /**
  * TaskService - Manages Task lifecycle with state machine enforcement
  */
 export class TaskService {
   /**
    * Create a new Task
+   * Creator-funded Tasks start AWAITING_FUNDING (see EscrowService.fundTask).
    */
-  async createTask(userId: string, input: CreateTaskInput): Promise<Task> {
-    // Validate budget
-    if (input.budgetLamports <= 0) {
-      throw new ValidationError('Budget must be greater than 0');
-    }
-
-    // Validate deadline is in the future
-    if (input.deadline && input.deadline <= new Date()) {
-      throw new ValidationError('Deadline must be in the future');
-    }
+  async createTask(userId: string, input: CreateTaskInput, lineage: TaskLineage = {}): Promise<Task> {
+    this.validateTaskInput(input);
+    await this.assertPrerequisites(userId, input.dependsOn ?? []);
 
     const task = await prisma.task.create({
       data: {
-        title: input.title,
-        description: input.description,
-        paymentTokenSymbol: input.paymentTokenSymbol,
-        budgetLamports: input.budgetLamports,
-        deadline: input.deadline,
-        requiredCapabilities: input.requiredCapabilities,
-        createdByUserId: userId,
-        status: 'OPEN',
-        chain: 'solana',
+        ...this.buildTaskData(userId, input),
+        // Subtasks are paid from their parent's escrow; other Tasks wait for their own
+        ...(lineage.fundedByAgentId ? {} : { status: 'AWAITING_FUNDING' as const }),
+        ...lineage,
+        milestones: input.milestones
+          ? { create: input.milestones.map((milestone, index) => ({ ...milestone, index })) }
+          : undefined,
       },
     });
 
@@ -56,11 +104,244 @@ export class TaskService {
       title: task.title,
       budgetLamports: task.budgetLamports.toString(),
       requiredCapabilities: task.requiredCapabilities,
+      auctionMode: task.auctionMode,
+      scoringPolicy: task.scoringPolicy,
     });
 
     return task;
   }
 
+  /**
+   * Validate Task settings before anything is created
+   */
+  validateTaskInput(input: CreateTaskInput): void {
+    // Validate budget
+    if (input.budgetLamports <= 0) {
+      throw new ValidationError('Budget must be greater than 0');
+    }
+
+    // Validate deadline is in the future
+    if (input.deadline && input.deadline <= new Date()) {
+      throw new ValidationError('Deadline must be in the future');
+    }
+
+    // Validate reserve price fits within the budget
+    if (input.reservePriceLamports !== undefined) {
+      if (input.reservePriceLamports <= 0) {
+        throw new ValidationError('Reserve price must be greater than 0');
+      }
+      if (input.reservePriceLamports > input.budgetLamports) {
+        throw new ValidationError(
+          `Reserve price (${input.reservePriceLamports}) exceeds task budget (${input.budgetLamports})`
+        );
+      }
+    }
+
+    // Validate the auction can open before the deadline (and within timer range)
+    if (input.auctionStartsAt) {
+      if (input.deadline && input.auctionStartsAt >= input.deadline) {
+        throw new ValidationError('Auction start time must be before the deadline');
+      }
+      if (input.auctionStartsAt.getTime() - Date.now() > MAX_AUCTION_DELAY_MS) {
+        throw new ValidationError('Auction start time must be within 14 days');
+      }
+    }
+
+    // Validate scoring policy and weight overrides (throws for unknown names)
+    if (input.scoringPolicy !== undefined || input.scoringWeights !== undefined) {
+      resolveWeights(getScoringPolicy(input.scoringPolicy), input.scoringWeights);
+    }
+
+    // Validate eligibility rules can be met by someone
+    if (input.minReputation !== undefined && (input.minReputation < 0 || input.minReputation > 5)) {
+      throw new ValidationError('Minimum reputation must be between 0 and 5');
+    }
+
+    if (input.maxFailureRatio !== undefined && (input.maxFailureRatio < 0 || input.maxFailureRatio > 1)) {
+      throw new ValidationError('Maximum failure ratio must be between 0 and 1');
+    }
+
+    // Validate budget escalation has a ceiling at or above the starting budget
+    if (input.budgetStepLamports !== undefined) {
+      if (input.budgetStepLamports <= 0) {
+        throw new ValidationError('Budget step must be greater than 0');
+      }
+      if (input.maxBudgetLamports === undefined) {
+        throw new ValidationError('A budget ceiling (maxBudgetLamports) is required to escalate the budget');
+      }
+    }
+
+    if (input.maxBudgetLamports !== undefined && input.maxBudgetLamports < input.budgetLamports) {
+      throw new ValidationError(
+        `Budget ceiling (${input.maxBudgetLamports}) is below the task budget (${input.budgetLamports})`
+      );
+    }
+
+    // Validate the instant-award price is something an offer could meet
+    if (input.buyNowPriceLamports !== undefined) {
+      if (input.buyNowPriceLamports <= 0) {
+        throw new ValidationError('Buy-now price must be greater than 0');
+      }
+      if (input.buyNowPriceLamports > input.budgetLamports) {
+        throw new ValidationError(
+          `Buy-now price (${input.buyNowPriceLamports}) exceeds task budget (${input.budgetLamports})`
+        );
+      }
+    }
+
+    // Validate consensus (multi-winner) settings
+    const winnerCount = input.winnerCount ?? 1;
+    if (winnerCount > 1) {
+      if (input.auctionMode === 'SEALED_SECOND_PRICE') {
+        throw new ValidationError('Sealed second-price auctions need a single winner');
+      }
+      if (
+        input.buyNowPriceLamports !== undefined ||
+        input.buyNowMaxEtaSeconds !== undefined ||
+        input.buyNowMinReputation !== undefined
+      ) {
+        throw new ValidationError('Buy-now conditions need a single winner');
+      }
+      if (input.consensusThreshold !== undefined && input.consensusThreshold > winnerCount) {
+        throw new ValidationError(
+          `Consensus threshold (${input.consensusThreshold}) exceeds winner count (${winnerCount})`
+        );
+      }
+      getComparator(input.consensusComparator);
+
+      // Consensus replaces the creator's review
+      if (input.reviewWindowSeconds !== undefined || input.maxRevisions !== undefined) {
+        throw new ValidationError('Review settings need a single winner');
+      }
+      if (input.maxRetries !== undefined) {
+        throw new ValidationError('Retries need a single winner');
+      }
+      if (input.milestones !== undefined) {
+        throw new ValidationError('Milestones need a single winner');
+      }
+    } else if (
+      input.consensusThreshold !== undefined ||
+      input.consensusComparator !== undefined ||
+      input.consensusTolerance !== undefined
+    ) {
+      throw new ValidationError('Consensus settings require winnerCount greater than 1');
+    }
+
+    const deniedAgents = new Set(input.deniedAgentIds ?? []);
+    if (input.allowedAgentIds?.some(id => deniedAgents.has(id))) {
+      throw new ValidationError('An Agent cannot be both allowlisted and denylisted');
+    }
+
+    const deniedOwners = new Set(input.deniedOwnerIds ?? []);
+    if (input.allowedOwnerIds?.some(id => deniedOwners.has(id))) {
+      throw new ValidationError('An owner cannot be both allowlisted and denylisted');
+    }
+
+    // Validate dependency settings
+    const dependsOn = input.dependsOn ?? [];
+    if (dependsOn.length > MAX_PREREQUISITES) {
+      throw new ValidationError(`A Task can depend on at most ${MAX_PREREQUISITES} Tasks`);
+    }
+    if (new Set(dependsOn).size !== dependsOn.length) {
+      throw new ValidationError('Prerequisite Tasks must be unique');
+    }
+    if (input.onDependencyFailure !== undefined && dependsOn.length === 0) {
+      throw new ValidationError('A dependency failure policy requires dependsOn');
+    }
+
+    // Validate milestones
+    if (input.milestones) {
+      if (input.milestones.length < 2 || input.milestones.length > MAX_MILESTONES) {
+        throw new ValidationError(`A Task with milestones needs 2 to ${MAX_MILESTONES} of them`);
+      }
+      if (input.milestones.some(milestone => milestone.shareBps <= 0)) {
+        throw new ValidationError('Every milestone needs a share greater than 0');
+      }
+      const totalBps = input.milestones.reduce((sum, milestone) => sum + milestone.shareBps, 0);
+      if (totalBps !== 10000) {
+        throw new ValidationError(`Milestone shares must add up to 10000 basis points (got ${totalBps})`);
+      }
+    }
+  }
+
+  /**
+   * Validate prerequisite Tasks exist and belong to the creator
+   * Prerequisites must already exist, so dependency graphs can't contain cycles.
+   */
+  private async assertPrerequisites(userId: string, dependsOn: string[]): Promise<void> {
+    if (dependsOn.length === 0) {
+      return;
+    }
+
+    const prerequisites = await prisma.task.findMany({
+      where: { id: { in: dependsOn } },
+      select: { id: true, createdByUserId: true },
+    });
+
+    const found = new Set(prerequisites.map(task => task.id));
+    const missing = dependsOn.find(id => !found.has(id));
+    if (missing) {
+      throw new NotFoundError('Task', missing);
+    }
+
+    // Upstream results are handed to downstream Agents
+    if (prerequisites.some(task => task.createdByUserId !== userId)) {
+      throw new ValidationError('A Task can only depend on Tasks you created');
+    }
+  }
+
+  /**
+   * Map validated Task settings to an OPEN (or BLOCKED) Task record
+   */
+  buildTaskData(userId: string, input: CreateTaskInput): Prisma.TaskUncheckedCreateInput {
+    return {
+      title: input.title,
+      description: input.description,
+      paymentTokenSymbol: input.paymentTokenSymbol,
+      budgetLamports: input.budgetLamports,
+      deadline: input.deadline,
+      requiredCapabilities: input.requiredCapabilities,
+      auctionMode: input.auctionMode,
+      minScoreStep: input.minScoreStep,
+      snipeWindowSeconds: input.snipeWindowSeconds,
+      extensionSeconds: input.extensionSeconds,
+      auctionWindowSeconds: input.auctionWindowSeconds,
+      auctionStartsAt: input.auctionStartsAt,
+      minOffers: input.minOffers,
+      reservePriceLamports: input.reservePriceLamports,
+      scoringPolicy: input.scoringPolicy,
+      scoringWeights: input.scoringWeights,
+      minReputation: input.minReputation,
+      minTasksCompleted: input.minTasksCompleted,
+      maxFailureRatio: input.maxFailureRatio,
+      allowedAgentIds: input.allowedAgentIds,
+      allowedOwnerIds: input.allowedOwnerIds,
+      deniedAgentIds: input.deniedAgentIds,
+      deniedOwnerIds: input.deniedOwnerIds,
+      maxReauctions: input.maxReauctions,
+      backoffSeconds: input.backoffSeconds,
+      budgetStepLamports: input.budgetStepLamports,
+      maxBudgetLamports: input.maxBudgetLamports,
+      buyNowPriceLamports: input.buyNowPriceLamports,
+      buyNowMaxEtaSeconds: input.buyNowMaxEtaSeconds,
+      buyNowMinReputation: input.buyNowMinReputation,
+      startTimeoutSeconds: input.startTimeoutSeconds,
+      winnerCount: input.winnerCount,
+      consensusThreshold: input.consensusThreshold,
+      consensusComparator: input.consensusComparator,
+      consensusTolerance: input.consensusTolerance,
+      dependsOn: input.dependsOn,
+      onDependencyFailure: input.onDependencyFailure,
+      reviewWindowSeconds: input.reviewWindowSeconds,
+      maxRevisions: input.maxRevisions,
+      maxRetries: input.maxRetries,
+      milestoneCount: input.milestones?.length ?? 0,
+      createdByUserId: userId,
+      status: input.dependsOn?.length ? 'BLOCKED' : 'OPEN',
+      chain: 'solana',
+    };
+  }
+
   /**
    * List Tasks with optional filters
    */
@@ -122,6 +403,9 @@ export class TaskService {
           orderBy: { createdAt: 'desc' },
           take: 1,
         },
+        milestones: {
+          orderBy: { index: 'asc' },
+        },
       },
     });
 
@@ -158,7 +442,12 @@ export class TaskService {
   /**
    * Assign a Task to an Agent
    */
-  async assignTask(taskId: string, agentId: string): Promise<Task> {
+  async assignTask(
+    taskId: string,
+    agentId: string,
+    awardedPriceLamports?: bigint,
+    startDeadlineAt?: Date
+  ): Promise<Task> {
     const task = await this.getTaskById(taskId);
     const guard = guardStatus(task.status);
 
@@ -170,12 +459,240 @@ export class TaskService {
       data: {
         assignedAgentId: agentId,
         status: 'ASSIGNED',
+        awardedPriceLamports: awardedPriceLamports ?? null,
+        startDeadlineAt: startDeadlineAt ?? null,
       },
     });
 
     logger.info('Task assigned', {
       taskId,
       agentId,
+      awardedPriceLamports: awardedPriceLamports?.toString(),
+      startDeadlineAt,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Assign a consensus Task to all of its winning Agents
+   * The top-ranked Agent is also recorded as assignedAgentId.
+   */
+  async assignTaskToAgents(
+    taskId: string,
+    agentIds: string[],
+    startDeadlineAt?: Date
+  ): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+    const guard = guardStatus(task.status);
+
+    // Validate can transition to ASSIGNED
+    guard.transitionTo('ASSIGNED');
+
+    const updated = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        assignedAgentId: agentIds[0],
+        assignedAgentIds: agentIds,
+        status: 'ASSIGNED',
+        awardedPriceLamports: null,
+        startDeadlineAt: startDeadlineAt ?? null,
+      },
+    });
+
+    logger.info('Task assigned to multiple agents', {
+      taskId,
+      agentIds,
+      startDeadlineAt,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Swap one of a consensus Task's Agents for another (e.g. a runner-up)
+   */
+  async replaceAssignedAgent(taskId: string, fromAgentId: string, toAgentId: string): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+
+    if (!task.assignedAgentIds.includes(fromAgentId)) {
+      throw new ValidationError(`Agent ${fromAgentId} is not assigned to this Task`);
+    }
+
+    const assignedAgentIds = task.assignedAgentIds.map(id => id === fromAgentId ? toAgentId : id);
+
+    const updated = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        assignedAgentIds,
+        assignedAgentId: assignedAgentIds[0],
+      },
+    });
+
+    logger.info('Task agent replaced', {
+      taskId,
+      fromAgentId,
+      toAgentId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Check if an Agent is assigned to a Task (any winner of a consensus Task)
+   */
+  isAssignedTo(task: Task, agentId: string): boolean {
+    return task.assignedAgentId === agentId || task.assignedAgentIds.includes(agentId);
+  }
+
+  /**
+   * Take an ASSIGNED Task back from its Agent and return it to OPEN
+   */
+  async releaseTask(taskId: string): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+
+    assertValidTransition(task.status, 'OPEN');
+
+    const updated = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: 'OPEN',
+        assignedAgentId: null,
+        assignedAgentIds: [],
+        awardedPriceLamports: null,
+        startDeadlineAt: null,
+      },
+    });
+
+    logger.info('Task released', {
+      taskId,
+      previousAgentId: task.assignedAgentId,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Return a FAILED Task to OPEN for another attempt
+   *
+   * The Agent that failed it can't bid again. What its subtasks spent or
+   * still hold drew on the same escrow, so it comes off the budget (and the
+   * prices capped by it) before the next auction. Returns null when the retry
+   * policy is used up, the deadline passed or nothing is left of the budget
+   * (the Task stays FAILED).
+   */
+  async retryTask(taskId: string, failedAgentId: string, subtaskSpendLamports = 0n): Promise<Task | null> {
+    const task = await this.getTaskById(taskId);
+
+    if (!canRetry(task) || (task.deadline && task.deadline <= new Date())) {
+      return null;
+    }
+
+    if (subtaskSpendLamports >= task.budgetLamports) {
+      return null;
+    }
+
+    const budgetLamports = task.budgetLamports - subtaskSpendLamports;
+    const capAt = (price: bigint | null) => price !== null && price > budgetLamports ? budgetLamports : price;
+
+    // Approved milestones are paid: the rest of the Task can't change hands
+    if (task.milestoneCount > 0) {
+      const approved = await prisma.milestone.count({
+        where: { taskId, status: 'APPROVED' },
+      });
+
+      if (approved > 0) {
+        return null;
+      }
+    }
+
+    assertValidTransition(task.status, 'OPEN');
+
+    // Claim the attempt so a failure is retried once
+    const claimed = await prisma.task.updateMany({
+      where: { id: taskId, status: 'FAILED', retryCount: task.retryCount },
+      data: {
+        status: 'OPEN',
+        retryCount: { increment: 1 },
+        failedAgentIds: { push: failedAgentId },
+        budgetLamports,
+        maxBudgetLamports: task.maxBudgetLamports !== null
+          ? task.maxBudgetLamports - subtaskSpendLamports
+          : null,
+        reservePriceLamports: capAt(task.reservePriceLamports),
+        buyNowPriceLamports: capAt(task.buyNowPriceLamports),
+        assignedAgentId: null,
+        assignedAgentIds: [],
+        awardedPriceLamports: null,
+        startDeadlineAt: null,
+        auctionStartsAt: null,
+        reviewDeadlineAt: null,
+        revisionCount: 0,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    // The next Agent starts from the first milestone
+    await prisma.milestone.updateMany({
+      where: { taskId, status: 'SUBMITTED' },
+      data: {
+        status: 'PENDING',
+        agentId: null,
+        executionId: null,
+        signedResultPayload: null,
+        resultSummary: null,
+        feedback: null,
+        submittedAt: null,
+        reviewDeadlineAt: null,
+      },
+    });
+
+    logger.info('Task retried', {
+      taskId,
+      failedAgentId,
+      subtaskSpendLamports: subtaskSpendLamports.toString(),
+      retry: task.retryCount + 1,
+      maxRetries: task.maxRetries,
+    });
+
+    return prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+    });
+  }
+
+  /**
+   * Return a Task to OPEN for another auction round
+   *
+   * Bumps the re-auction counter, applies the escalated budget and sets
+   * the time the next auction opens.
+   */
+  async scheduleReauction(
+    taskId: string,
+    auctionStartsAt: Date,
+    budgetLamports: bigint
+  ): Promise<Task> {
+    const task = await this.getTaskById(taskId);
+
+    assertValidTransition(task.status, 'OPEN');
+
+    const updated = await prisma.task.update({
+      where: { id: taskId },
+      data: {
+        status: 'OPEN',
+        auctionStartsAt,
+        budgetLamports,
+        reauctionCount: { increment: 1 },
+      },
+    });
+
+    logger.info('Task re-auction scheduled', {
+      taskId,
+      reauctionCount: updated.reauctionCount,
+      auctionStartsAt,
+      budgetLamports: budgetLamports.toString(),
     });
 
     return updated;
@@ -201,6 +718,14 @@ export class TaskService {
       data: { status: 'CANCELLED' },
     });
 
+    // An unfunded sharded Task takes its shards with it
+    if (task.kind === 'SHARD_PARENT') {
+      await prisma.task.updateMany({
+        where: { parentTaskId: taskId, status: 'AWAITING_FUNDING' },
+        data: { status: 'CANCELLED' },
+      });
+    }
+
     logger.info('Task cancelled', { taskId });
 
     return updated;
@@ -244,6 +769,27 @@ export class TaskService {
       return task.requiredCapabilities.every(cap => capabilities.includes(cap));
     });
   }
+
+  /**
+   * Result of a completed Task
+   * The agreed result for consensus Tasks, the combined result for map-reduce parents.
+   */
+  async getTaskResult(task: Task): Promise<string | null> {
+    if (task.kind === 'SHARD_PARENT') {
+      return task.resultPayload;
+    }
+
+    const execution = await prisma.execution.findFirst({
+      where: {
+        taskId: task.id,
+        status: 'SUCCESS',
+        OR: [{ inConsensus: null }, { inConsensus: true }],
+      },
+      orderBy: { completedAt: 'asc' },
+    });
+
+    return execution?.signedResultPayload ?? null;
+  }
 }
 
 export const taskService = new TaskService();
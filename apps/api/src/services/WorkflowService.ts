@@ -0,0 +1,252 @@
+import { EventEmitter } from 'events';
+import { Prisma, Task, TaskStatus, DependencyFailurePolicy } from '@prisma/client';
+import prisma from '../utils/prisma.js';
+import logger from '../utils/logger.js';
+import { NotFoundError } from '../utils/errors.js';
+import { isTerminal } from '../utils/state-machine.js';
+import { taskService } from './TaskService.js';
+import { escrowService } from './EscrowService.js';
+
+export interface UpstreamResult {
+  status: TaskStatus;
+  result: string | null;
+}
+
+export interface WorkflowNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  dependsOn: string[];
+  onDependencyFailure: DependencyFailurePolicy;
+}
+
+export interface WorkflowGraph {
+  nodes: WorkflowNode[];
+  edges: { from: string; to: string }[]; // prerequisite -> dependent
+  counts: Partial<Record<TaskStatus, number>>;
+  status: 'COMPLETED' | 'FAILED' | 'STALLED' | 'IN_PROGRESS';
+}
+
+// Keep graph walks bounded
+const MAX_WORKFLOW_NODES = 500;
+
+/**
+ * WorkflowService - Task dependency graphs (dependsOn)
+ *
+ * A Task with prerequisites is created BLOCKED. When a Task finishes, its
+ * BLOCKED dependents are re-evaluated:
+ * - every prerequisite COMPLETED: the dependent opens with the upstream
+ *   results attached and its auction starts
+ * - a prerequisite failed (FAILED, CANCELLED or EXPIRED): the dependent's
+ *   onDependencyFailure policy decides
+ *   - CANCEL: cancel it, which cascades to its own dependents
+ *   - WAIT: stay BLOCKED until the creator cancels it
+ *   - PROCEED: open once every prerequisite finished, failed ones included
+ *
+ * Events emitted:
+ * - 'workflow:unblocked' - when a Task opened and needs an auction
+ * - 'workflow:cancelled' - when a Task was cancelled by a failed prerequisite
+ */
+export class WorkflowService extends EventEmitter {
+  /**
+   * Re-evaluate the BLOCKED dependents of a Task that reached a terminal status
+   */
+  async handleTaskFinished(taskId: string): Promise<void> {
+    const dependents = await prisma.task.findMany({
+      where: {
+        dependsOn: { has: taskId },
+        status: 'BLOCKED',
+      },
+      select: { id: true },
+    });
+
+    for (const dependent of dependents) {
+      await this.evaluate(dependent.id);
+    }
+  }
+
+  /**
+   * Open, cancel or keep blocking a BLOCKED Task based on its prerequisites
+   */
+  async evaluate(taskId: string): Promise<TaskStatus> {
+    const task = await taskService.getTaskById(taskId);
+
+    if (task.status !== 'BLOCKED') {
+      return task.status;
+    }
+
+    const prerequisites = await prisma.task.findMany({
+      where: { id: { in: task.dependsOn } },
+    });
+
+    const failed = prerequisites.filter(p => isTerminal(p.status) && p.status !== 'COMPLETED');
+    const finished = prerequisites.every(p => isTerminal(p.status));
+
+    if (failed.length > 0 && task.onDependencyFailure === 'CANCEL') {
+      return this.cancelBlocked(task, failed);
+    }
+
+    if (!finished || (failed.length > 0 && task.onDependencyFailure === 'WAIT')) {
+      return 'BLOCKED';
+    }
+
+    return this.unblock(task, prerequisites);
+  }
+
+  /**
+   * Open a Task with the results of its prerequisites
+   */
+  private async unblock(task: Task, prerequisites: Task[]): Promise<TaskStatus> {
+    const upstreamResults: Record<string, UpstreamResult> = {};
+    for (const prerequisite of prerequisites) {
+      upstreamResults[prerequisite.id] = {
+        status: prerequisite.status,
+        result: prerequisite.status === 'COMPLETED'
+          ? await taskService.getTaskResult(prerequisite)
+          : null,
+      };
+    }
+
+    // Claim the Task so prerequisites finishing together open it once
+    const claimed = await prisma.task.updateMany({
+      where: { id: task.id, status: 'BLOCKED' },
+      data: {
+        status: 'OPEN',
+        upstreamResults: upstreamResults as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    if (claimed.count === 0) {
+      return (await taskService.getTaskById(task.id)).status;
+    }
+
+    logger.info('Task unblocked', {
+      taskId: task.id,
+      prerequisites: prerequisites.length,
+      failedPrerequisites: prerequisites.filter(p => p.status !== 'COMPLETED').length,
+    });
+
+    this.emit('workflow:unblocked', await taskService.getTaskById(task.id));
+
+    return 'OPEN';
+  }
+
+  /**
+   * Cancel a Task whose prerequisite failed, then cascade to its dependents
+   */
+  private async cancelBlocked(task: Task, failed: Task[]): Promise<TaskStatus> {
+    const claimed = await prisma.task.updateMany({
+      where: { id: task.id, status: 'BLOCKED' },
+      data: { status: 'CANCELLED' },
+    });
+
+    if (claimed.count === 0) {
+      return (await taskService.getTaskById(task.id)).status;
+    }
+
+    logger.info('Task cancelled by failed prerequisite', {
+      taskId: task.id,
+      failedPrerequisites: failed.map(p => ({ id: p.id, status: p.status })),
+    });
+
+    this.emit('workflow:cancelled', {
+      taskId: task.id,
+      status: 'CANCELLED',
+      failedPrerequisiteIds: failed.map(p => p.id),
+    });
+
+    await escrowService.settleTask(task.id);
+    await this.handleTaskFinished(task.id);
+
+    return 'CANCELLED';
+  }
+
+  /**
+   * The whole dependency graph a Task belongs to (upstream and downstream)
+   */
+  async getWorkflow(taskId: string): Promise<WorkflowGraph> {
+    const root = await prisma.task.findUnique({
+      where: { id: taskId },
+    });
+
+    if (!root) {
+      throw new NotFoundError('Task', taskId);
+    }
+
+    const nodes = new Map<string, Task>([[root.id, root]]);
+    let frontier = [root];
+
+    while (frontier.length > 0 && nodes.size < MAX_WORKFLOW_NODES) {
+      const ids = frontier.map(task => task.id);
+      const upstreamIds = frontier.flatMap(task => task.dependsOn).filter(id => !nodes.has(id));
+
+      const neighbours = await prisma.task.findMany({
+        where: {
+          OR: [
+            { id: { in: upstreamIds } },
+            { dependsOn: { hasSome: ids } },
+          ],
+        },
+        take: MAX_WORKFLOW_NODES,
+      });
+
+      frontier = neighbours.filter(task => !nodes.has(task.id));
+      for (const task of frontier) {
+        nodes.set(task.id, task);
+      }
+    }
+
+    const tasks = [...nodes.values()].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    const counts: Partial<Record<TaskStatus, number>> = {};
+    for (const task of tasks) {
+      counts[task.status] = (counts[task.status] ?? 0) + 1;
+    }
+
+    return {
+      nodes: tasks.map(task => ({
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        dependsOn: task.dependsOn,
+        onDependencyFailure: task.onDependencyFailure,
+      })),
+      edges: tasks.flatMap(task =>
+        task.dependsOn
+          .filter(id => nodes.has(id))
+          .map(id => ({ from: id, to: task.id }))
+      ),
+      counts,
+      status: this.getWorkflowStatus(tasks),
+    };
+  }
+
+  /**
+   * Overall state of a workflow
+   * STALLED: nothing can move without the creator (WAIT Tasks behind failures).
+   */
+  private getWorkflowStatus(tasks: Task[]): WorkflowGraph['status'] {
+    if (tasks.every(task => task.status === 'COMPLETED')) {
+      return 'COMPLETED';
+    }
+
+    const active = tasks.filter(task => !isTerminal(task.status));
+    if (active.length === 0) {
+      return 'FAILED';
+    }
+
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const stalled = active.every(task =>
+      task.status === 'BLOCKED' &&
+      task.dependsOn.some(id => {
+        const prerequisite = byId.get(id);
+        return !!prerequisite && isTerminal(prerequisite.status) && prerequisite.status !== 'COMPLETED';
+      })
+    );
+
+    return stalled ? 'STALLED' : 'IN_PROGRESS';
+  }
+}
+
+export const workflowService = new WorkflowService();
+export default workflowService;
@@ -11,10 +11,36 @@ export { auctionEngine, AuctionEngine } from './AuctionEngine.js';
 export { executionService, ExecutionService } from './ExecutionService.js';
 export { paymentService, PaymentService } from './PaymentService.js';
 export { reputationService, ReputationService } from './ReputationService.js';
+export { consensusService, ConsensusService } from './ConsensusService.js';
+export { shardService, ShardService } from './ShardService.js';
+export { workflowService, WorkflowService } from './WorkflowService.js';
+export { subcontractService, SubcontractService } from './SubcontractService.js';
+export { reviewService, ReviewService } from './ReviewService.js';
+export { disputeService, DisputeService } from './DisputeService.js';
+export { milestoneService, MilestoneService } from './MilestoneService.js';
+export { escrowService, EscrowService } from './EscrowService.js';
+export { ledgerService, LedgerService } from './LedgerService.js';
+export { payoutService, PayoutService } from './PayoutService.js';
+export { taskScheduler, TaskScheduler } from './TaskScheduler.js';
 
 // Re-export types
 export type { CreateAgentInput, UpdateAgentInput, AgentFilters } from './AgentService.js';
-export type { CreateTaskInput, TaskFilters } from './TaskService.js';
-export type { CreateOfferInput } from './OfferService.js';
-export type { AuctionResult } from './AuctionEngine.js';
+export type { CreateTaskInput, TaskFilters, TaskLineage } from './TaskService.js';
+export type { CreateOfferInput, AmendOfferInput, OfferWithAgent } from './OfferService.js';
+export type { AuctionResult, ReauctionOutcome } from './AuctionEngine.js';
 export type { CompleteExecutionInput } from './ExecutionService.js';
+export type { ConsensusResult } from './ConsensusService.js';
+export type { CreateShardedTaskInput, ShardProgress } from './ShardService.js';
+export type { UpstreamResult, WorkflowNode, WorkflowGraph } from './WorkflowService.js';
+export type { SubtaskBudget } from './SubcontractService.js';
+export type { SubmitEvidenceInput, VerdictInput, DisputeWithEvidence } from './DisputeService.js';
+export type { SubmitMilestoneInput } from './MilestoneService.js';
+export type { FundingResult, TaskEscrow } from './EscrowService.js';
+export type {
+  LedgerAccountRef,
+  LedgerLine,
+  PostingInput,
+  LedgerAccountFilters,
+  LedgerTokenReconciliation,
+  LedgerIntegrityReport,
+} from './LedgerService.js';
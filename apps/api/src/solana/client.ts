@@ -23,6 +23,24 @@ import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
 import bs58 from 'bs58';
 
+export interface PreparedTransaction {
+  signature: string;
+  blockhash: string;
+  lastValidBlockHeight: number; // the transaction can't land past this block height
+  rawTransaction: string; // signed, base64
+}
+
+export interface DepositTransfer {
+  txHash: string;
+  receivedLamports: bigint; // what the deposit address gained in this transaction
+  accountKeys: string[]; // every account the transaction mentions (references included)
+}
+
+export interface TransactionStatus {
+  status: 'NOT_FOUND' | 'PROCESSED' | 'CONFIRMED' | 'FINALIZED' | 'FAILED';
+  error?: string; // FAILED: the transaction landed with an error
+}
+
 /**
  * Interface for Solana payment client
  */
@@ -32,10 +50,53 @@ export interface SolanaClient {
     amountLamports: bigint;
     tokenMint?: string; // If undefined, send native SOL
   }): Promise<{ txHash: string }>;
+
+  /**
+   * Sign (without sending) one transaction holding several transfers of a token
+   * Its signature is known before it is broadcast, so it can be recorded first.
+   */
+  preparePayment(params: {
+    transfers: { toPubkey: string; amountLamports: bigint }[];
+    tokenMint?: string; // If undefined, send native SOL
+  }): Promise<PreparedTransaction>;
+
+  /**
+   * Broadcast a prepared transaction (does not wait for confirmation)
+   */
+  broadcastTransaction(rawTransaction: string): Promise<void>;
+
+  /**
+   * Where a transaction stands on-chain
+   */
+  getTransactionStatus(signature: string): Promise<TransactionStatus>;
+
+  /**
+   * Current finalized block height, to tell when a blockhash expired for good
+   */
+  getBlockHeight(): Promise<number>;
   
   getBalance(pubkey: string): Promise<bigint>;
+
+  /**
+   * Address creators send deposits to
+   */
+  getDepositAddress(): string;
+
+  /**
+   * Confirmed transfers to a deposit address that include the given
+   * reference key (Solana Pay style)
+   */
+  findDeposit(params: {
+    depositAddress: string;
+    reference: string;
+    amountLamports: bigint; // expected amount
+    tokenMint?: string; // If undefined, native SOL
+  }): Promise<DepositTransfer[]>;
 }
 
+// getSignaturesForAddress returns at most this many signatures per call
+const SIGNATURES_PAGE_SIZE = 1000;
+
 /**
  * Token mint addresses on Solana
  */
@@ -123,6 +184,91 @@ export class RealSolanaClient implements SolanaClient {
     }
   }
 
+  /**
+   * Sign one transaction paying several recipients in one token
+   */
+  async preparePayment(params: {
+    transfers: { toPubkey: string; amountLamports: bigint }[];
+    tokenMint?: string;
+  }): Promise<PreparedTransaction> {
+    const { transfers, tokenMint } = params;
+    const transaction = new Transaction();
+
+    if (!tokenMint || tokenMint === 'SOL') {
+      for (const transfer of transfers) {
+        transaction.add(
+          SystemProgram.transfer({
+            fromPubkey: this.treasuryKeypair.publicKey,
+            toPubkey: new PublicKey(transfer.toPubkey),
+            lamports: transfer.amountLamports,
+          })
+        );
+      }
+    } else {
+      const mintAddress = new PublicKey(TOKEN_MINTS[tokenMint] || tokenMint);
+      for (const transfer of transfers) {
+        await this.addTokenTransfer(
+          transaction,
+          new PublicKey(transfer.toPubkey),
+          transfer.amountLamports,
+          mintAddress
+        );
+      }
+    }
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = this.treasuryKeypair.publicKey;
+    transaction.sign(this.treasuryKeypair);
+
+    return {
+      signature: bs58.encode(transaction.signature!),
+      blockhash,
+      lastValidBlockHeight,
+      rawTransaction: transaction.serialize().toString('base64'),
+    };
+  }
+
+  /**
+   * Send a signed transaction to the cluster
+   */
+  async broadcastTransaction(rawTransaction: string): Promise<void> {
+    await this.connection.sendRawTransaction(Buffer.from(rawTransaction, 'base64'));
+  }
+
+  /**
+   * Look a signature up, transaction history included
+   */
+  async getTransactionStatus(signature: string): Promise<TransactionStatus> {
+    const { value } = await this.connection.getSignatureStatuses([signature], {
+      searchTransactionHistory: true,
+    });
+    const status = value[0];
+
+    if (!status) {
+      return { status: 'NOT_FOUND' };
+    }
+    if (status.err) {
+      return { status: 'FAILED', error: JSON.stringify(status.err) };
+    }
+
+    switch (status.confirmationStatus) {
+      case 'finalized':
+        return { status: 'FINALIZED' };
+      case 'confirmed':
+        return { status: 'CONFIRMED' };
+      default:
+        return { status: 'PROCESSED' };
+    }
+  }
+
+  /**
+   * Current block height (finalized commitment: it won't roll back)
+   */
+  async getBlockHeight(): Promise<number> {
+    return this.connection.getBlockHeight('finalized');
+  }
+
   /**
    * Send native SOL
    */
@@ -153,6 +299,28 @@ export class RealSolanaClient implements SolanaClient {
     amount: bigint,
     mintAddress: PublicKey
   ): Promise<string> {
+    const transaction = new Transaction();
+    await this.addTokenTransfer(transaction, recipient, amount, mintAddress);
+
+    const signature = await sendAndConfirmTransaction(
+      this.connection,
+      transaction,
+      [this.treasuryKeypair],
+      { commitment: 'confirmed' }
+    );
+
+    return signature;
+  }
+
+  /**
+   * Add an SPL token transfer (creating the recipient's ATA if needed)
+   */
+  private async addTokenTransfer(
+    transaction: Transaction,
+    recipient: PublicKey,
+    amount: bigint,
+    mintAddress: PublicKey
+  ): Promise<void> {
     // Get associated token accounts
     const fromAta = await getAssociatedTokenAddress(
       mintAddress,
@@ -164,8 +332,6 @@ export class RealSolanaClient implements SolanaClient {
       recipient
     );
 
-    const transaction = new Transaction();
-
     // Check if recipient has ATA, create if not
     try {
       await getAccount(this.connection, toAta);
@@ -190,15 +356,6 @@ export class RealSolanaClient implements SolanaClient {
         amount
       )
     );
-
-    const signature = await sendAndConfirmTransaction(
-      this.connection,
-      transaction,
-      [this.treasuryKeypair],
-      { commitment: 'confirmed' }
-    );
-
-    return signature;
   }
 
   /**
@@ -216,6 +373,90 @@ export class RealSolanaClient implements SolanaClient {
     return this.treasuryKeypair.publicKey.toBase58();
   }
 
+  /**
+   * Deposits go to the treasury, told apart by their reference key
+   */
+  getDepositAddress(): string {
+    return this.getTreasuryAddress();
+  }
+
+  /**
+   * Find the transfers to a deposit address through its reference key
+   */
+  async findDeposit(params: {
+    depositAddress: string;
+    reference: string;
+    amountLamports: bigint;
+    tokenMint?: string;
+  }): Promise<DepositTransfer[]> {
+    const { depositAddress, reference, tokenMint } = params;
+    const mintAddress = tokenMint && tokenMint !== 'SOL'
+      ? TOKEN_MINTS[tokenMint] || tokenMint
+      : undefined;
+
+    // Every signature for the reference, page by page (newest first)
+    const signatures: Awaited<ReturnType<Connection['getSignaturesForAddress']>> = [];
+    let before: string | undefined;
+    for (;;) {
+      const page = await this.connection.getSignaturesForAddress(
+        new PublicKey(reference),
+        { before, limit: SIGNATURES_PAGE_SIZE },
+        'confirmed'
+      );
+      signatures.push(...page);
+
+      if (page.length < SIGNATURES_PAGE_SIZE) {
+        break;
+      }
+      before = page[page.length - 1].signature;
+    }
+
+    const transfers: DepositTransfer[] = [];
+
+    for (const { signature, err } of signatures) {
+      if (err) {
+        continue;
+      }
+
+      const tx = await this.connection.getParsedTransaction(signature, {
+        commitment: 'confirmed',
+        maxSupportedTransactionVersion: 0,
+      });
+
+      if (!tx?.meta) {
+        continue;
+      }
+
+      let received = 0n;
+      if (!mintAddress) {
+        // Native SOL: balance change of the deposit address
+        const index = tx.transaction.message.accountKeys.findIndex(
+          key => key.pubkey.toBase58() === depositAddress
+        );
+        if (index >= 0) {
+          received = BigInt(tx.meta.postBalances[index]) - BigInt(tx.meta.preBalances[index]);
+        }
+      } else {
+        // SPL token: balance change of the deposit address's token account
+        const tokenAmount = (balances: typeof tx.meta.postTokenBalances) => {
+          const balance = balances?.find(b => b.owner === depositAddress && b.mint === mintAddress);
+          return BigInt(balance?.uiTokenAmount.amount ?? '0');
+        };
+        received = tokenAmount(tx.meta.postTokenBalances) - tokenAmount(tx.meta.preTokenBalances);
+      }
+
+      if (received > 0n) {
+        transfers.push({
+          txHash: signature,
+          receivedLamports: received,
+          accountKeys: tx.transaction.message.accountKeys.map(key => key.pubkey.toBase58()),
+        });
+      }
+    }
+
+    return transfers;
+  }
+
   /**
    * Check treasury balance
    */
@@ -228,6 +469,19 @@ export class RealSolanaClient implements SolanaClient {
   }
 }
 
+/**
+ * Deposit address reported by the simulated client
+ */
+const SIMULATED_DEPOSIT_ADDRESS = 'SimuLatedTreasury1111111111111111111111111';
+
+// Simulated transactions: blockhashes stay valid for ~1 minute, like on mainnet,
+// and broadcasts finalize after a few seconds
+const SIMULATED_BLOCKHASH_VALIDITY = 150;
+const SIMULATED_FINALIZATION_MS = 5000;
+
+// Broadcast time per signature, shared by every simulated client
+const simulatedBroadcasts = new Map<string, number>();
+
 /**
  * DummySolanaClient - Simulated payments for development
  */
@@ -252,10 +506,83 @@ export class DummySolanaClient implements SolanaClient {
     return { txHash };
   }
 
+  async preparePayment(params: {
+    transfers: { toPubkey: string; amountLamports: bigint }[];
+    tokenMint?: string;
+  }): Promise<PreparedTransaction> {
+    const signature = `sim_${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+    logger.info('[SIMULATED] Payment prepared', {
+      signature,
+      transfers: params.transfers.length,
+      amount: params.transfers.reduce((sum, transfer) => sum + transfer.amountLamports, 0n).toString(),
+      token: params.tokenMint || 'SOL',
+    });
+
+    return {
+      signature,
+      blockhash: `sim_blockhash_${Date.now()}`,
+      lastValidBlockHeight: (await this.getBlockHeight()) + SIMULATED_BLOCKHASH_VALIDITY,
+      rawTransaction: signature,
+    };
+  }
+
+  async broadcastTransaction(rawTransaction: string): Promise<void> {
+    // Simulate network delay
+    await new Promise(resolve => setTimeout(resolve, 500));
+
+    simulatedBroadcasts.set(rawTransaction, Date.now());
+  }
+
+  async getTransactionStatus(signature: string): Promise<TransactionStatus> {
+    const broadcastAt = simulatedBroadcasts.get(signature);
+
+    if (broadcastAt === undefined) {
+      return { status: 'NOT_FOUND' };
+    }
+
+    // Confirmed right away, finalized a little later
+    return Date.now() - broadcastAt >= SIMULATED_FINALIZATION_MS
+      ? { status: 'FINALIZED' }
+      : { status: 'CONFIRMED' };
+  }
+
+  async getBlockHeight(): Promise<number> {
+    // One simulated block every 400ms
+    return Math.floor(Date.now() / 400);
+  }
+
   async getBalance(pubkey: string): Promise<bigint> {
     // Return fake balance
     return BigInt(1000000000); // 1 SOL
   }
+
+  getDepositAddress(): string {
+    return SIMULATED_DEPOSIT_ADDRESS;
+  }
+
+  async findDeposit(params: {
+    depositAddress: string;
+    reference: string;
+    amountLamports: bigint;
+    tokenMint?: string;
+  }): Promise<DepositTransfer[]> {
+    // Every deposit arrives in full, once
+    const txHash = `sim_deposit_${params.reference.slice(0, 16)}`;
+
+    logger.info('[SIMULATED] Deposit received', {
+      txHash,
+      reference: params.reference.slice(0, 8) + '...',
+      amount: params.amountLamports.toString(),
+      token: params.tokenMint || 'SOL',
+    });
+
+    return [{
+      txHash,
+      receivedLamports: params.amountLamports,
+      accountKeys: [params.depositAddress, params.reference],
+    }];
+  }
 }
 
 /**
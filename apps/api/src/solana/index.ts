@@ -11,8 +11,9 @@ export {
   TOKEN_MINTS,
 } from './client.js';
 
-export type { SolanaClient } from './client.js';
+export type { SolanaClient, PreparedTransaction, TransactionStatus, DepositTransfer } from './client.js';
 
+import { Keypair } from '@solana/web3.js';
 import { config } from '../config/index.js';
 import logger from '../utils/logger.js';
 
@@ -24,6 +25,14 @@ export function isValidSolanaAddress(address: string): boolean {
   return base58Regex.test(address);
 }
 
+/**
+ * Fresh reference key identifying one deposit
+ * Only the public key is kept: it is never used to sign.
+ */
+export function createDepositReference(): string {
+  return Keypair.generate().publicKey.toBase58();
+}
+
 /**
  * Format lamports to SOL for display
  */
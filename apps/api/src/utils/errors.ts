@@ -59,8 +59,9 @@ export class AuctionError extends RunicError {
   }
 }
 
-
-
-
-
-
+export class EligibilityError extends RunicError {
+  constructor(message: string) {
+    super(message, 403, 'NOT_ELIGIBLE');
+    this.name = 'EligibilityError';
+  }
+}
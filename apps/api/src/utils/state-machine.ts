@@ -5,33 +5,43 @@
  * Prevents invalid operations like going from COMPLETED back to RUNNING.
  */
 
-import { TaskStatus } from '@prisma/client';
+import { Task, TaskStatus } from '@prisma/client';
 import { ConflictError } from './errors.js';
 
 /**
  * Valid state transitions for Tasks
  */
 const VALID_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
-  OPEN: ['IN_AUCTION', 'CANCELLED'],
-  IN_AUCTION: ['ASSIGNED', 'OPEN', 'CANCELLED'], // OPEN = no offers received
-  ASSIGNED: ['RUNNING', 'CANCELLED'],
-  RUNNING: ['COMPLETED', 'FAILED'],
+  AWAITING_FUNDING: ['OPEN', 'BLOCKED', 'RUNNING', 'CANCELLED', 'EXPIRED'], // RUNNING = sharded parent; EXPIRED = never funded
+  BLOCKED: ['OPEN', 'CANCELLED'], // OPEN = prerequisites done, CANCELLED = prerequisite failed
+  OPEN: ['IN_AUCTION', 'CANCELLED', 'EXPIRED'],
+  IN_AUCTION: ['ASSIGNED', 'OPEN', 'CANCELLED', 'EXPIRED'], // OPEN = no offers received
+  ASSIGNED: ['RUNNING', 'ASSIGNED', 'OPEN', 'CANCELLED'], // ASSIGNED/OPEN = start timeout (runner-up / re-auction)
+  RUNNING: ['PENDING_REVIEW', 'COMPLETED', 'FAILED', 'CANCELLED'], // COMPLETED = accepted right away, consensus or last milestone; CANCELLED = milestone Tasks, or shards of a failed parent
+  PENDING_REVIEW: ['COMPLETED', 'RUNNING', 'DISPUTED'], // RUNNING = revision requested
+  DISPUTED: ['COMPLETED', 'FAILED'],
   COMPLETED: [], // Terminal state
-  FAILED: [], // Terminal state
+  FAILED: ['OPEN'], // Terminal unless the retry policy re-auctions it (canRetry)
   CANCELLED: [], // Terminal state
+  EXPIRED: [], // Terminal state
 };
 
 /**
  * Human-readable status descriptions
  */
 const STATUS_DESCRIPTIONS: Record<TaskStatus, string> = {
+  AWAITING_FUNDING: 'waiting for the creator to fund its escrow',
+  BLOCKED: 'waiting for prerequisite tasks',
   OPEN: 'waiting for auction',
   IN_AUCTION: 'accepting offers',
   ASSIGNED: 'assigned to an agent',
   RUNNING: 'being executed',
+  PENDING_REVIEW: 'waiting for the creator to review the result',
+  DISPUTED: 'result disputed by the creator',
   COMPLETED: 'successfully completed',
   FAILED: 'execution failed',
   CANCELLED: 'cancelled by user',
+  EXPIRED: 'expired without a winner',
 };
 
 /**
@@ -66,7 +76,7 @@ export function canAcceptOffers(status: TaskStatus): boolean {
  * Check if a task can be cancelled
  */
 export function canBeCancelled(status: TaskStatus): boolean {
-  return ['OPEN', 'IN_AUCTION', 'ASSIGNED'].includes(status);
+  return ['AWAITING_FUNDING', 'BLOCKED', 'OPEN', 'IN_AUCTION', 'ASSIGNED'].includes(status);
 }
 
 /**
@@ -83,11 +93,27 @@ export function canComplete(status: TaskStatus): boolean {
   return status === 'RUNNING';
 }
 
+/**
+ * Check if a task's result can be reviewed by its creator
+ */
+export function canReview(status: TaskStatus): boolean {
+  return status === 'PENDING_REVIEW';
+}
+
+/**
+ * Check if a FAILED task has retries left
+ */
+export function canRetry(task: Pick<Task, 'status' | 'retryCount' | 'maxRetries'>): boolean {
+  return task.status === 'FAILED' && task.retryCount < (task.maxRetries ?? 0);
+}
+
 /**
  * Check if a task is in a terminal state
+ * FAILED tasks with retries left are re-auctioned right away, before anyone
+ * treats them as finished.
  */
 export function isTerminal(status: TaskStatus): boolean {
-  return ['COMPLETED', 'FAILED', 'CANCELLED'].includes(status);
+  return ['COMPLETED', 'FAILED', 'CANCELLED', 'EXPIRED'].includes(status);
 }
 
 /**
@@ -130,7 +156,7 @@ export class TaskStatusGuard {
     if (!canBeCancelled(this.currentStatus)) {
       throw new ConflictError(
         `Cannot cancel: Task is ${this.currentStatus} (${STATUS_DESCRIPTIONS[this.currentStatus]}). ` +
-        `Only OPEN, IN_AUCTION, or ASSIGNED tasks can be cancelled.`
+        `Only AWAITING_FUNDING, BLOCKED, OPEN, IN_AUCTION, or ASSIGNED tasks can be cancelled.`
       );
     }
   }
@@ -147,6 +173,18 @@ export class TaskStatusGuard {
     }
   }
 
+  /**
+   * Assert can be reviewed
+   */
+  assertCanReview(): void {
+    if (!canReview(this.currentStatus)) {
+      throw new ConflictError(
+        `Cannot review: Task is ${this.currentStatus} (${STATUS_DESCRIPTIONS[this.currentStatus]}). ` +
+        `Results can only be reviewed when status is PENDING_REVIEW.`
+      );
+    }
+  }
+
   /**
    * Assert can complete
    */
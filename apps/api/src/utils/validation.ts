@@ -73,7 +73,7 @@ export const createTaskSchema = z.object({
 });
 
 export const taskFiltersSchema = z.object({
-  status: z.enum(['OPEN', 'IN_AUCTION', 'ASSIGNED', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED']).optional(),
+  status: z.enum(['AWAITING_FUNDING', 'BLOCKED', 'OPEN', 'IN_AUCTION', 'ASSIGNED', 'RUNNING', 'PENDING_REVIEW', 'DISPUTED', 'COMPLETED', 'FAILED', 'CANCELLED', 'EXPIRED']).optional(),
   search: z.string().max(100).optional(),
 });
 
@@ -2,6 +2,7 @@ import { Server as SocketIOServer, Socket } from 'socket.io';
 import logger from '../utils/logger.js';
 import { verifyToken } from '../auth/jwt.js';
 import prisma from '../utils/prisma.js';
+import { agentService } from '../services/AgentService.js';
 
 // Global socket.io server instance
 let io: SocketIOServer | null = null;
@@ -19,9 +20,11 @@ export type EventType =
   | 'tasks:available'
   | 'tasks:assigned'
   | 'offers:created'
+  | 'offers:updated'
   | 'auctions:completed'
   | 'executions:completed'
-  | 'payments:updated';
+  | 'payments:updated'
+  | 'disputes:updated';
 
 /**
  * Initialize WebSocket server
@@ -46,6 +49,7 @@ export function initializeWebSocket(server: SocketIOServer): void {
     try {
       const payload = verifyToken(token);
       (socket as any).userId = payload.userId;
+      socket.data.userId = payload.userId;
       
       // If agentId provided, verify ownership
       if (agentId) {
@@ -64,6 +68,7 @@ export function initializeWebSocket(server: SocketIOServer): void {
 
         (socket as any).agentId = agentId;
         (socket as any).capabilities = agent.capabilities;
+        socket.data.agentId = agentId;
       }
 
       next();
@@ -146,15 +151,10 @@ export function emitEvent(event: EventType, data: any): void {
   switch (event) {
     case 'tasks:created':
     case 'tasks:available':
-      // Emit to all agents subscribed to available tasks
-      io.of(NAMESPACES.AGENTS).to('available-tasks').emit('tasks:available', data);
-      
-      // Emit to agents with matching capabilities
-      if (data.task?.requiredCapabilities) {
-        data.task.requiredCapabilities.forEach((cap: string) => {
-          io!.of(NAMESPACES.AGENTS).to(`capability:${cap}`).emit('tasks:available', data);
-        });
-      }
+      // Emit to subscribed agents that could bid on the task
+      emitTaskAvailable(data).catch((error) => {
+        logger.error('Failed to fan out available task', error as Error);
+      });
       break;
 
     case 'tasks:assigned':
@@ -165,7 +165,14 @@ export function emitEvent(event: EventType, data: any): void {
       }
       break;
 
+    case 'offers:created':
+    case 'offers:updated':
+      // Let bidders react to the current best offer and moving deadlines
+      io.of(NAMESPACES.AGENTS).to('available-tasks').emit(event, data);
+      break;
+
     case 'tasks:updated':
+    case 'disputes:updated':
       // Emit to assigned agent if present
       if (data.agentId) {
         io.of(NAMESPACES.AGENTS).to(`agent:${data.agentId}`).emit('tasks:updated', data);
@@ -176,6 +183,59 @@ export function emitEvent(event: EventType, data: any): void {
   logger.debug(`Event emitted: ${event}`, { hasData: !!data });
 }
 
+/**
+ * Fan a task out to agents subscribed to available tasks or its capabilities,
+ * skipping agents that are inactive, lack capabilities or fail eligibility rules.
+ * Sockets not bound to an agent still receive every task.
+ */
+async function emitTaskAvailable(data: any): Promise<void> {
+  if (!io) return;
+
+  const agentsNs = io.of(NAMESPACES.AGENTS);
+  const task = data.task;
+
+  if (!task) {
+    agentsNs.to('available-tasks').emit('tasks:available', data);
+    return;
+  }
+
+  const rooms = [
+    'available-tasks',
+    ...task.requiredCapabilities.map((cap: string) => `capability:${cap}`),
+  ];
+  const sockets = await agentsNs.in(rooms).fetchSockets();
+
+  const agentIds = [...new Set(sockets.map(socket => socket.data.agentId).filter(Boolean))];
+  const agents = await prisma.agent.findMany({
+    where: { id: { in: agentIds } },
+  });
+  const agentsById = new Map(agents.map(agent => [agent.id, agent]));
+
+  let skipped = 0;
+  sockets.forEach(socket => {
+    if (socket.data.agentId) {
+      const agent = agentsById.get(socket.data.agentId);
+      if (
+        !agent ||
+        !agent.isActive ||
+        !agentService.hasRequiredCapabilities(agent, task.requiredCapabilities) ||
+        !agentService.isEligibleForTask(agent, task)
+      ) {
+        skipped++;
+        return;
+      }
+    }
+
+    socket.emit('tasks:available', data);
+  });
+
+  logger.debug('Available task fanned out', {
+    taskId: task.id,
+    sockets: sockets.length,
+    skipped,
+  });
+}
+
 /**
  * Send event to a specific Agent
  */
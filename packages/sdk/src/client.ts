@@ -10,8 +10,16 @@ import type {
   RunicClientConfig,
   TaskSummary,
   OfferParams,
+  AmendOfferParams,
+  CreateTaskInput,
   ExecutionCompleteParams,
+  DisputeEvidence,
+  DisputeEvidenceParams,
+  Milestone,
+  SubmitMilestoneParams,
+  Task,
   TaskAvailableEvent,
+  OfferCreatedEvent,
   TaskAssignedEvent,
 } from './types.js';
 
@@ -90,6 +98,21 @@ export class RunicClient {
     });
   }
 
+  /**
+   * Subscribe to new offers on tasks, including the current auction deadline
+   * (reverse English auctions push it back when bids land late)
+   */
+  onOfferCreated(handler: (event: OfferCreatedEvent) => void): () => void {
+    return this.ws.on<OfferCreatedEvent>('offers:created', handler);
+  }
+
+  /**
+   * Subscribe to amended offers on tasks
+   */
+  onOfferUpdated(handler: (event: OfferCreatedEvent) => void): () => void {
+    return this.ws.on<OfferCreatedEvent>('offers:updated', handler);
+  }
+
   /**
    * Subscribe to task assignment notifications
    */
@@ -127,18 +150,53 @@ export class RunicClient {
     await this.http.submitOffer(taskId, this.config.agentId, params);
   }
 
+  /**
+   * Amend a pending offer's price, ETA or expiry in place
+   */
+  async amendOffer(taskId: string, offerId: string, params: AmendOfferParams): Promise<void> {
+    await this.http.amendOffer(taskId, offerId, this.config.agentId, params);
+  }
+
   /**
    * Start execution of an assigned task
    */
   async startExecution(taskId: string): Promise<void> {
-    await this.http.startExecution(taskId);
+    await this.http.startExecution(taskId, this.config.agentId);
   }
 
   /**
    * Complete execution of a task
    */
   async completeExecution(taskId: string, params: ExecutionCompleteParams): Promise<void> {
-    await this.http.completeExecution(taskId, params);
+    await this.http.completeExecution(taskId, { agentId: this.config.agentId, ...params });
+  }
+
+  /**
+   * Deliver the next milestone of a milestone task
+   * Milestones are submitted in order, one at a time; each is paid once approved.
+   */
+  async submitMilestone(taskId: string, index: number, params: SubmitMilestoneParams): Promise<Milestone> {
+    const { milestone } = await this.http.submitMilestone(taskId, index, params);
+    return milestone;
+  }
+
+  /**
+   * Post a subtask under a task this agent is running, paid from its share
+   * The task can only be completed once its subtasks finished or were cancelled.
+   */
+  async createSubtask(parentTaskId: string, input: CreateTaskInput): Promise<Task> {
+    const { task } = await this.http.createSubtask(parentTaskId, this.config.agentId, input);
+    return task;
+  }
+
+  /**
+   * Submit this agent's side of a dispute over one of its results
+   * Disputes are announced as `disputes:updated` events.
+   */
+  async submitDisputeEvidence(taskId: string, params: DisputeEvidenceParams): Promise<DisputeEvidence> {
+    const { dispute } = await this.http.getTaskDispute(taskId);
+    const { evidence } = await this.http.submitDisputeEvidence(dispute.id, params);
+    return evidence;
   }
 
   /**
@@ -148,6 +206,13 @@ export class RunicClient {
     await this.http.settlePayment(paymentId);
   }
 
+  /**
+   * Settle a FAILED payment again
+   */
+  async retryPayment(paymentId: string): Promise<void> {
+    await this.http.retryPayment(paymentId);
+  }
+
   /**
    * Get the underlying HTTP client for advanced usage
    */
@@ -82,6 +82,16 @@ export type {
   OfferStatus,
   ExecutionStatus,
   PaymentStatus,
+  RefundStatus,
+  AuctionMode,
+  TaskKind,
+  DependencyFailurePolicy,
+  DisputeStatus,
+  DisputeVerdict,
+  DisputeParty,
+  MilestoneStatus,
+  EscrowStatus,
+  DepositStatus,
   
   // Core models
   User,
@@ -89,20 +99,37 @@ export type {
   Task,
   TaskSummary,
   Offer,
+  OfferRevision,
   Execution,
   Payment,
+  Refund,
   ReputationEvent,
+  ShardProgress,
+  UpstreamResult,
+  WorkflowGraph,
+  Dispute,
+  DisputeEvidence,
+  Milestone,
+  Escrow,
+  CreatorBalance,
+  Deposit,
   
   // Input types
   CreateAgentInput,
   UpdateAgentInput,
   CreateTaskInput,
+  CreateShardedTaskInput,
   OfferParams,
+  AmendOfferParams,
   ExecutionCompleteParams,
+  DisputeEvidenceParams,
+  MilestoneInput,
+  SubmitMilestoneParams,
   
   // Event types
   EventType,
   TaskAvailableEvent,
+  OfferCreatedEvent,
   TaskAssignedEvent,
   AuctionCompletedEvent,
   ExecutionCompletedEvent,
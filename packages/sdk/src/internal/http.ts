@@ -7,13 +7,27 @@ import type {
   CreateAgentInput,
   UpdateAgentInput,
   CreateTaskInput,
+  CreateShardedTaskInput,
+  ShardProgress,
+  WorkflowGraph,
   OfferParams,
+  AmendOfferParams,
+  OfferRevision,
   ExecutionCompleteParams,
   Agent,
   Task,
   TaskSummary,
   Offer,
   Execution,
+  Dispute,
+  DisputeEvidence,
+  DisputeEvidenceParams,
+  DisputeStatus,
+  Milestone,
+  SubmitMilestoneParams,
+  Escrow,
+  CreatorBalance,
+  Deposit,
   Payment,
   User,
   ApiResponse,
@@ -93,6 +107,10 @@ export class HttpClient {
     return this.request('GET', '/api/auth/me');
   }
 
+  async registerWallet(walletAddress: string): Promise<{ user: User }> {
+    return this.request('PUT', '/api/auth/me/wallet', { walletAddress });
+  }
+
   // ============================================
   // Agent Endpoints
   // ============================================
@@ -127,10 +145,37 @@ export class HttpClient {
   // Task Endpoints
   // ============================================
 
-  async createTask(input: CreateTaskInput): Promise<{ task: Task; message: string }> {
+  /** `deposit` is set when the creator's balance can't fund the task yet */
+  async createTask(input: CreateTaskInput): Promise<{ task: Task; deposit?: Deposit; message: string }> {
     return this.request('POST', '/api/tasks', input);
   }
 
+  async createShardedTask(
+    input: CreateShardedTaskInput
+  ): Promise<{ task: Task; shards: Task[]; deposit?: Deposit; message: string }> {
+    return this.request('POST', '/api/tasks/sharded', input);
+  }
+
+  async listShards(id: string): Promise<{ shards: Task[]; progress: ShardProgress }> {
+    return this.request('GET', `/api/tasks/${id}/shards`);
+  }
+
+  async getWorkflow(id: string): Promise<{ workflow: WorkflowGraph }> {
+    return this.request('GET', `/api/tasks/${id}/workflow`);
+  }
+
+  async createSubtask(
+    parentTaskId: string,
+    agentId: string,
+    input: CreateTaskInput
+  ): Promise<{ task: Task; message: string }> {
+    return this.request('POST', `/api/tasks/${parentTaskId}/subtasks`, { agentId, ...input });
+  }
+
+  async listSubtasks(parentTaskId: string): Promise<{ subtasks: Task[] }> {
+    return this.request('GET', `/api/tasks/${parentTaskId}/subtasks`);
+  }
+
   async listTasks(filters?: {
     status?: string;
     search?: string;
@@ -162,6 +207,8 @@ export class HttpClient {
       status: t.status,
       requiredCapabilities: t.requiredCapabilities,
       deadline: t.deadline,
+      shardInput: t.shardInput,
+      upstreamResults: t.upstreamResults,
     }));
   }
 
@@ -173,6 +220,66 @@ export class HttpClient {
     return this.request('POST', `/api/tasks/${id}/cancel`);
   }
 
+  async acceptResult(id: string): Promise<{ task: Task; message: string }> {
+    return this.request('POST', `/api/tasks/${id}/review/accept`);
+  }
+
+  async requestRevision(id: string, feedback: string): Promise<{ execution: Execution; message: string }> {
+    return this.request('POST', `/api/tasks/${id}/review/revision`, { feedback });
+  }
+
+  async openDispute(id: string, reason: string): Promise<{ dispute: Dispute; message: string }> {
+    return this.request('POST', `/api/tasks/${id}/review/dispute`, { reason });
+  }
+
+  // ============================================
+  // Milestone Endpoints
+  // ============================================
+
+  async listMilestones(taskId: string): Promise<{ milestones: Milestone[] }> {
+    return this.request('GET', `/api/tasks/${taskId}/milestones`);
+  }
+
+  async submitMilestone(
+    taskId: string,
+    index: number,
+    params: SubmitMilestoneParams
+  ): Promise<{ milestone: Milestone; message: string }> {
+    return this.request('POST', `/api/tasks/${taskId}/milestones/${index}/submit`, params);
+  }
+
+  async approveMilestone(taskId: string, index: number): Promise<{ milestone: Milestone; message: string }> {
+    return this.request('POST', `/api/tasks/${taskId}/milestones/${index}/approve`);
+  }
+
+  async rejectMilestone(
+    taskId: string,
+    index: number,
+    feedback: string
+  ): Promise<{ milestone: Milestone; message: string }> {
+    return this.request('POST', `/api/tasks/${taskId}/milestones/${index}/reject`, { feedback });
+  }
+
+  // ============================================
+  // Dispute Endpoints
+  // ============================================
+
+  async getTaskDispute(taskId: string): Promise<{ dispute: Dispute }> {
+    return this.request('GET', `/api/tasks/${taskId}/dispute`);
+  }
+
+  async listDisputes(status?: DisputeStatus): Promise<{ disputes: Dispute[] }> {
+    return this.request('GET', `/api/disputes${status ? `?status=${status}` : ''}`);
+  }
+
+  async getDispute(id: string): Promise<{ dispute: Dispute }> {
+    return this.request('GET', `/api/disputes/${id}`);
+  }
+
+  async submitDisputeEvidence(id: string, params: DisputeEvidenceParams): Promise<{ evidence: DisputeEvidence }> {
+    return this.request('POST', `/api/disputes/${id}/evidence`, params);
+  }
+
   // ============================================
   // Offer Endpoints
   // ============================================
@@ -182,9 +289,28 @@ export class HttpClient {
       agentId,
       priceLamports: String(params.priceLamports),
       etaSeconds: params.etaSeconds,
+      validUntil: params.validUntil,
     });
   }
 
+  async amendOffer(
+    taskId: string,
+    offerId: string,
+    agentId: string,
+    params: AmendOfferParams
+  ): Promise<{ offer: Offer }> {
+    return this.request('PATCH', `/api/tasks/${taskId}/offers/${offerId}`, {
+      agentId,
+      priceLamports: params.priceLamports !== undefined ? String(params.priceLamports) : undefined,
+      etaSeconds: params.etaSeconds,
+      validUntil: params.validUntil,
+    });
+  }
+
+  async listOfferRevisions(taskId: string, offerId: string): Promise<{ offer: Offer; revisions: OfferRevision[] }> {
+    return this.request('GET', `/api/tasks/${taskId}/offers/${offerId}/revisions`);
+  }
+
   async listOffers(taskId: string): Promise<{ offers: Offer[] }> {
     return this.request('GET', `/api/tasks/${taskId}/offers`);
   }
@@ -193,14 +319,41 @@ export class HttpClient {
   // Execution Endpoints
   // ============================================
 
-  async startExecution(taskId: string): Promise<{ execution: Execution; message: string }> {
-    return this.request('POST', `/api/tasks/${taskId}/execution/start`);
+  async startExecution(taskId: string, agentId?: string): Promise<{ execution: Execution; message: string }> {
+    return this.request('POST', `/api/tasks/${taskId}/execution/start`, { agentId });
   }
 
   async completeExecution(taskId: string, params: ExecutionCompleteParams): Promise<{ execution: Execution; message: string }> {
     return this.request('POST', `/api/tasks/${taskId}/execution/complete`, params);
   }
 
+  // ============================================
+  // Escrow Endpoints
+  // ============================================
+
+  async getTaskEscrow(taskId: string): Promise<{ escrow: Escrow | null; deposits: Deposit[] }> {
+    return this.request('GET', `/api/tasks/${taskId}/escrow`);
+  }
+
+  async getBalances(): Promise<{ balances: CreatorBalance[] }> {
+    return this.request('GET', '/api/escrow/balances');
+  }
+
+  async listDeposits(): Promise<{ deposits: Deposit[] }> {
+    return this.request('GET', '/api/escrow/deposits');
+  }
+
+  async createDeposit(tokenSymbol: string, amountLamports: bigint | string): Promise<{ deposit: Deposit }> {
+    return this.request('POST', '/api/escrow/deposits', {
+      tokenSymbol,
+      amountLamports: String(amountLamports),
+    });
+  }
+
+  async confirmDeposit(id: string): Promise<{ deposit: Deposit; message: string }> {
+    return this.request('POST', `/api/escrow/deposits/${id}/confirm`);
+  }
+
   // ============================================
   // Payment Endpoints
   // ============================================
@@ -226,4 +379,8 @@ export class HttpClient {
   async settlePayment(id: string): Promise<{ payment: Payment; message: string }> {
     return this.request('POST', `/api/payments/${id}/settle`);
   }
+
+  async retryPayment(id: string): Promise<{ payment: Payment; message: string }> {
+    return this.request('POST', `/api/payments/${id}/retry`);
+  }
 }
@@ -124,6 +124,7 @@ export class WsClient {
       'tasks:assigned',
       'tasks:updated',
       'offers:created',
+      'offers:updated',
       'auctions:completed',
       'executions:completed',
       'payments:updated',
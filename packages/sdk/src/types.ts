@@ -9,32 +9,94 @@
 // ============================================
 
 export type TaskStatus = 
+  | 'AWAITING_FUNDING'
+  | 'BLOCKED'
   | 'OPEN'
   | 'IN_AUCTION'
   | 'ASSIGNED'
   | 'RUNNING'
+  | 'PENDING_REVIEW'
+  | 'DISPUTED'
   | 'COMPLETED'
   | 'FAILED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'EXPIRED';
 
 export type OfferStatus = 
   | 'PENDING'
   | 'ACCEPTED'
   | 'REJECTED'
-  | 'CANCELLED';
+  | 'CANCELLED'
+  | 'EXPIRED';
 
 export type ExecutionStatus = 
   | 'PENDING'
   | 'RUNNING'
   | 'SUCCESS'
-  | 'FAILURE';
+  | 'FAILURE'
+  | 'ABANDONED'
+  | 'TIMED_OUT'
+  | 'REVISION_REQUESTED'
+  | 'CANCELLED';
+
+export type AuctionMode =
+  | 'STANDARD'
+  | 'SEALED_SECOND_PRICE'
+  | 'REVERSE_ENGLISH';
+
+export type TaskKind =
+  | 'STANDARD'
+  | 'SHARD_PARENT'
+  | 'SHARD'
+  | 'REDUCE'
+  | 'SUBTASK';
+
+export type DependencyFailurePolicy =
+  | 'CANCEL'
+  | 'WAIT'
+  | 'PROCEED';
+
+export type MilestoneStatus =
+  | 'PENDING'
+  | 'SUBMITTED'
+  | 'APPROVED'
+  | 'CANCELLED';
+
+export type DisputeStatus =
+  | 'OPEN'
+  | 'RESOLVED';
+
+export type DisputeVerdict =
+  | 'FULL_PAY'
+  | 'PARTIAL_PAY'
+  | 'REFUND';
+
+export type DisputeParty =
+  | 'CREATOR'
+  | 'AGENT';
+
+export type EscrowStatus =
+  | 'LOCKED'
+  | 'SETTLED';
+
+export type DepositStatus =
+  | 'PENDING'
+  | 'CREDITED';
 
 export type PaymentStatus = 
   | 'PENDING'
+  | 'SUBMITTED'
+  | 'CONFIRMED'
   | 'COMPLETED'
   | 'FAILED'
   | 'REFUNDED';
 
+export type RefundStatus =
+  | 'SENDING'
+  | 'SENT'
+  | 'CREDITED'
+  | 'FAILED';
+
 // ============================================
 // Core Models
 // ============================================
@@ -42,6 +104,8 @@ export type PaymentStatus =
 export interface User {
   id: string;
   email?: string;
+  walletAddress?: string | null; // refunds on the user's Tasks are sent here
+  reputationScore: number; // as a task creator
   createdAt: string;
   updatedAt: string;
 }
@@ -74,6 +138,60 @@ export interface Task {
   requiredCapabilities: string[];
   deadline?: string | null;
   assignedAgentId?: string | null;
+  auctionMode: AuctionMode;
+  awardedPriceLamports?: string | null; // BigInt as string
+  minScoreStep?: number | null;
+  snipeWindowSeconds?: number | null;
+  extensionSeconds?: number | null;
+  auctionWindowSeconds?: number | null;
+  auctionStartsAt?: string | null;
+  minOffers: number;
+  reservePriceLamports?: string | null; // BigInt as string
+  scoringPolicy?: string | null;
+  scoringWeights?: Record<string, number> | null;
+  minReputation?: number | null;
+  minTasksCompleted?: number | null;
+  maxFailureRatio?: number | null;
+  allowedAgentIds: string[];
+  allowedOwnerIds: string[];
+  deniedAgentIds: string[];
+  deniedOwnerIds: string[];
+  maxReauctions?: number | null;
+  backoffSeconds?: number | null;
+  budgetStepLamports?: string | null; // BigInt as string
+  maxBudgetLamports?: string | null; // BigInt as string
+  reauctionCount: number;
+  buyNowPriceLamports?: string | null; // BigInt as string
+  buyNowMaxEtaSeconds?: number | null;
+  buyNowMinReputation?: number | null;
+  startTimeoutSeconds?: number | null;
+  startDeadlineAt?: string | null;
+  winnerCount: number;
+  assignedAgentIds: string[];
+  consensusThreshold?: number | null;
+  consensusComparator?: string | null;
+  consensusTolerance?: number | null;
+  kind: TaskKind;
+  parentTaskId?: string | null;
+  shardIndex?: number | null;
+  shardInput?: string | null; // SHARD: input slice; REDUCE: JSON array of shard outputs
+  shardCount?: number | null;
+  reduceBudgetLamports?: string | null; // BigInt as string
+  reduceCapabilities: string[];
+  resultPayload?: string | null; // SHARD_PARENT: final result
+  dependsOn: string[];
+  onDependencyFailure: DependencyFailurePolicy;
+  upstreamResults?: Record<string, UpstreamResult> | null; // set when unblocked
+  parentExecutionId?: string | null; // SUBTASK: the Execution that posted it
+  fundedByAgentId?: string | null; // SUBTASK: Agent paying for it
+  reviewWindowSeconds?: number | null;
+  reviewDeadlineAt?: string | null; // PENDING_REVIEW: auto-accepted at this time
+  maxRevisions?: number | null;
+  revisionCount: number;
+  maxRetries?: number | null;
+  retryCount: number;
+  failedAgentIds: string[]; // excluded from retries
+  milestoneCount: number; // 0 = paid once at the end
   createdAt: string;
   updatedAt: string;
   
@@ -82,6 +200,7 @@ export interface Task {
   assignedAgent?: Pick<Agent, 'id' | 'name'>;
   offers?: Offer[];
   executions?: Execution[];
+  milestones?: Milestone[];
 }
 
 export interface TaskSummary {
@@ -93,6 +212,13 @@ export interface TaskSummary {
   status: string;
   requiredCapabilities: string[];
   deadline?: string | null;
+  shardInput?: string | null;
+  upstreamResults?: Record<string, UpstreamResult> | null;
+}
+
+export interface UpstreamResult {
+  status: TaskStatus;
+  result: string | null;
 }
 
 export interface Offer {
@@ -103,7 +229,10 @@ export interface Offer {
   etaSeconds: number;
   status: OfferStatus;
   score: number;
+  validUntil?: string | null;
+  revision: number;
   createdAt: string;
+  updatedAt: string;
   
   // Populated relations
   agent?: Pick<Agent, 'id' | 'name' | 'reputationScore'>;
@@ -121,6 +250,8 @@ export interface Execution {
   resultSummary?: string;
   errorMessage?: string;
   proofHash?: string;
+  inConsensus?: boolean | null;
+  reviewFeedback?: string | null; // creator's revision request or dispute reason
   createdAt: string;
   
   // Populated relations
@@ -132,10 +263,15 @@ export interface Payment {
   id: string;
   taskId: string;
   agentId: string;
-  amountLamports: string; // BigInt as string
+  amountLamports: string; // BigInt as string, released from the escrow
+  feeLamports: string; // protocol fee kept from the amount; the Agent receives the rest
+  refundedLamports: string; // refunded to the creator so far
   tokenSymbol: string;
+  payerAgentId?: string | null; // subtasks: Agent whose share funds the payment
+  milestoneId?: string | null; // milestone Tasks: the approved milestone paid for
   status: PaymentStatus;
-  txHash?: string;
+  txHash?: string; // shared by the payments of a payout batch
+  payoutBatchId?: string | null; // batch that paid it out
   chain: string;
   createdAt: string;
   updatedAt: string;
@@ -143,17 +279,145 @@ export interface Payment {
   // Populated relations
   task?: Pick<Task, 'id' | 'title'>;
   agent?: Pick<Agent, 'id' | 'name' | 'walletAddress'>;
+  refunds?: Refund[];
+}
+
+export interface Refund {
+  id: string;
+  paymentId: string;
+  userId: string; // Task creator
+  amountLamports: string; // BigInt as string
+  feeLamports: string; // part taken back from the protocol fee
+  tokenSymbol: string;
+  reason: string;
+  walletAddress?: string | null; // null when credited to the escrow or balance instead
+  signature?: string | null; // the transfer, recorded before it is broadcast
+  txHash?: string | null; // set once the transfer is finalized
+  error?: string | null;
+  paymentStatus: PaymentStatus; // restored if the refund fails
+  status: RefundStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Escrow {
+  id: string;
+  taskId: string; // root Task: shards and subtasks draw from it
+  userId: string;
+  tokenSymbol: string;
+  amountLamports: string; // BigInt as string; locked budget (or escalation ceiling)
+  releasedLamports: string; // owed to agents through payments
+  returnedLamports: string; // sent back to the creator's balance
+  status: EscrowStatus;
+  settledAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreatorBalance {
+  id: string;
+  userId: string;
+  tokenSymbol: string;
+  availableLamports: string; // BigInt as string
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Deposit {
+  id: string;
+  userId: string;
+  taskId?: string | null; // funded once the deposit is credited
+  tokenSymbol: string;
+  amountLamports: string; // BigInt as string; expected amount
+  receivedLamports: string; // found on-chain and credited so far
+  depositAddress: string; // send the transfer here...
+  reference: string; // ...including this public key as a read-only account
+  txHashes: string[];
+  status: DepositStatus;
+  creditedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface ReputationEvent {
   id: string;
-  agentId: string;
+  agentId?: string | null; // agent events
+  userId?: string | null; // task creator events
   taskId: string;
   deltaScore: number;
   reason: string;
   createdAt: string;
 }
 
+export interface Milestone {
+  id: string;
+  taskId: string;
+  index: number;
+  title: string;
+  deliverable: string;
+  shareBps: number; // share of the Agent's price, in basis points
+  status: MilestoneStatus;
+  agentId?: string | null;
+  executionId?: string | null;
+  signedResultPayload?: string | null;
+  resultSummary?: string | null;
+  feedback?: string | null; // set when the creator sent it back
+  submittedAt?: string | null;
+  reviewDeadlineAt?: string | null; // SUBMITTED: auto-approved at this time
+  approvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MilestoneInput {
+  title: string;
+  deliverable: string;
+  /** Share of the agent's price in basis points; a task's milestones add up to 10000 */
+  shareBps: number;
+}
+
+export interface SubmitMilestoneParams {
+  signedResultPayload: string;
+  resultSummary?: string;
+}
+
+export interface DisputeEvidence {
+  id: string;
+  disputeId: string;
+  party: DisputeParty;
+  submittedByUserId: string;
+  content: string;
+  attachmentUrl?: string | null;
+  createdAt: string;
+}
+
+export interface Dispute {
+  id: string;
+  taskId: string;
+  executionId: string;
+  agentId: string;
+  openedByUserId: string;
+  reason: string;
+  status: DisputeStatus;
+  arbiterUserId?: string | null; // null = any platform admin
+  evidenceDeadlineAt: string;
+  verdict?: DisputeVerdict | null;
+  agentShareBps?: number | null; // PARTIAL_PAY: share paid, in basis points
+  rationale?: string | null;
+  resolvedByUserId?: string | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+
+  // Populated relations
+  evidence?: DisputeEvidence[];
+}
+
+export interface DisputeEvidenceParams {
+  content: string;
+  attachmentUrl?: string;
+}
+
 // ============================================
 // API Request/Response Types
 // ============================================
@@ -196,14 +460,141 @@ export interface CreateTaskInput {
   budgetLamports: string;
   deadline?: string;
   requiredCapabilities?: string[];
+  auctionMode?: AuctionMode;
+  /** REVERSE_ENGLISH: required score improvement per bid */
+  minScoreStep?: number;
+  /** REVERSE_ENGLISH: bids in this final window extend the auction */
+  snipeWindowSeconds?: number;
+  /** REVERSE_ENGLISH: how far the end time is pushed back */
+  extensionSeconds?: number;
+  /** Auction length (defaults to the server's AUCTION_WINDOW_MS) */
+  auctionWindowSeconds?: number;
+  /** Earliest time the auction may open (ISO 8601) */
+  auctionStartsAt?: string;
+  /** Offers required before the auction can award (default 1) */
+  minOffers?: number;
+  /** Maximum accepted price, must not exceed the budget */
+  reservePriceLamports?: string;
+  /** Offer scoring policy (see GET /api/scoring/policies) */
+  scoringPolicy?: string;
+  /** Overrides for the policy's default weights */
+  scoringWeights?: Record<string, number>;
+  /** Eligibility: minimum agent reputation (0-5) */
+  minReputation?: number;
+  /** Eligibility: minimum completed tasks */
+  minTasksCompleted?: number;
+  /** Eligibility: maximum failed / (completed + failed) */
+  maxFailureRatio?: number;
+  /** Eligibility: only these agents may bid (combines with allowedOwnerIds) */
+  allowedAgentIds?: string[];
+  /** Eligibility: only agents of these owners may bid */
+  allowedOwnerIds?: string[];
+  /** Eligibility: agents that may never bid */
+  deniedAgentIds?: string[];
+  /** Eligibility: owners whose agents may never bid */
+  deniedOwnerIds?: string[];
+  /** Re-auction rounds allowed before the task expires */
+  maxReauctions?: number;
+  /** Delay before the first re-auction, doubled every round */
+  backoffSeconds?: number;
+  /** Budget added each re-auction round */
+  budgetStepLamports?: string;
+  /** Ceiling for budget escalation */
+  maxBudgetLamports?: string;
+  /** Buy-now: offers at or below this price win instantly (with the other thresholds) */
+  buyNowPriceLamports?: string;
+  /** Buy-now: maximum ETA */
+  buyNowMaxEtaSeconds?: number;
+  /** Buy-now: minimum agent reputation */
+  buyNowMinReputation?: number;
+  /** Time the winner has to start execution before the task moves on */
+  startTimeoutSeconds?: number;
+  /** Number of agents that execute the task independently (k-of-N consensus) */
+  winnerCount?: number;
+  /** Matching results needed to complete (defaults to a majority of winnerCount) */
+  consensusThreshold?: number;
+  /** How results are compared: exact, json or numeric */
+  consensusComparator?: string;
+  /** Allowed difference for the numeric comparator */
+  consensusTolerance?: number;
+  /** Prerequisite task ids; the task stays BLOCKED until they complete */
+  dependsOn?: string[];
+  /** What happens when a prerequisite fails (default CANCEL) */
+  onDependencyFailure?: DependencyFailurePolicy;
+  /** Time the creator has to review a result before it is accepted (0 = no review) */
+  reviewWindowSeconds?: number;
+  /** Revisions the creator may request */
+  maxRevisions?: number;
+  /** Re-auctions after a failed execution, without the agents that failed */
+  maxRetries?: number;
+  /** Ordered milestones (2-20), each reviewed and paid on its own */
+  milestones?: MilestoneInput[];
+}
+
+export interface CreateShardedTaskInput
+  extends Omit<CreateTaskInput, 'budgetLamports' | 'dependsOn' | 'onDependencyFailure' | 'milestones'> {
+  /** One shard is auctioned per input (2-1000) */
+  shardInputs: string[];
+  /** Budget of each shard */
+  shardBudgetLamports: string;
+  /** Optional reduce shard, given the JSON array of shard outputs */
+  reduce?: {
+    budgetLamports: string;
+    requiredCapabilities?: string[];
+  };
+}
+
+export interface WorkflowGraph {
+  nodes: {
+    id: string;
+    title: string;
+    status: TaskStatus;
+    dependsOn: string[];
+    onDependencyFailure: DependencyFailurePolicy;
+  }[];
+  edges: { from: string; to: string }[];
+  counts: Partial<Record<TaskStatus, number>>;
+  status: 'COMPLETED' | 'FAILED' | 'STALLED' | 'IN_PROGRESS';
+}
+
+export interface ShardProgress {
+  total: number;
+  completed: number;
+  failed: number;
+  inProgress: number;
+  waiting: number;
+  percent: number;
+  reduceStatus: TaskStatus | null;
 }
 
 export interface OfferParams {
   priceLamports: string | number;
   etaSeconds: number;
+  /** Offer lapses after this time (ISO 8601) */
+  validUntil?: string;
+}
+
+export interface AmendOfferParams {
+  priceLamports?: string | number;
+  etaSeconds?: number;
+  /** New expiry (ISO 8601), or null to clear it */
+  validUntil?: string | null;
+}
+
+export interface OfferRevision {
+  id: string;
+  offerId: string;
+  revision: number;
+  priceLamports: string; // BigInt as string
+  etaSeconds: number;
+  score: number;
+  validUntil?: string | null;
+  createdAt: string;
 }
 
 export interface ExecutionCompleteParams {
+  /** Reporting agent (needed for consensus tasks) */
+  agentId?: string;
   success: boolean;
   signedResultPayload?: string;
   resultSummary?: string;
@@ -221,15 +612,26 @@ export type EventType =
   | 'tasks:available'
   | 'tasks:assigned'
   | 'offers:created'
+  | 'offers:updated'
   | 'auctions:completed'
   | 'executions:completed'
-  | 'payments:updated';
+  | 'payments:updated'
+  | 'disputes:updated';
 
 export interface TaskAvailableEvent {
   task: TaskSummary;
   auctionEndsAt?: string;
 }
 
+export interface OfferCreatedEvent {
+  taskId: string;
+  offer?: Offer; // omitted while a sealed-bid auction is open
+  sealed?: boolean;
+  auctionEndsAt: string | null;
+  extended?: boolean; // true when the offer pushed the deadline back
+  amended?: boolean; // true for 'offers:updated'
+}
+
 export interface TaskAssignedEvent {
   taskId: string;
   offer: Offer;
@@ -238,8 +640,10 @@ export interface TaskAssignedEvent {
 export interface AuctionCompletedEvent {
   taskId: string;
   winningOffer: Offer | null;
+  winningOffers: Offer[];
   totalOffers: number;
   auctionDurationMs: number;
+  buyNow: boolean;
 }
 
 export interface ExecutionCompletedEvent {